@@ -0,0 +1,259 @@
+import { bench, describe } from 'vitest';
+import Fastify from 'fastify';
+import webhookVerify, {
+  getProvider,
+  type BaseProvider,
+  type WebhookProvider,
+} from '../src/index.js';
+import {
+  createDiscordSignature,
+  createEcdsaKeyPair,
+  createEd25519KeyPair,
+  createGitHubSignature,
+  createHubSpotSignature,
+  createJwt,
+  createJwtKeyPair,
+  createLinearSignature,
+  createMailgunSignature,
+  createPaddleSignature,
+  createRsaKeyPair,
+  createSendGridSignature,
+  createShopifySignature,
+  createSlackSignature,
+  createSnsMessage,
+  createSquareSignature,
+  createStandardWebhooksSignature,
+  createStripeSignature,
+  createTwilioSignature,
+  createTwitchSignature,
+  createZoomSignature,
+  getCurrentTimestamp,
+} from '../test/helpers.js';
+
+/**
+ * Signed delivery verified the way the plugin does it
+ */
+interface Delivery {
+  provider: BaseProvider;
+  secret: string;
+  body: unknown;
+  rawBody: Buffer;
+  headers: Record<string, string>;
+  url: string;
+}
+
+const SECRET = 'bench_webhook_secret';
+const WEBHOOK_URL = 'https://api.example.com/webhooks';
+const PAYLOAD = JSON.stringify({
+  id: 'evt_1',
+  type: 'order.created',
+  data: { id: 1234, total: '99.90', currency: 'EUR', items: [{ sku: 'A-1', quantity: 2 }] },
+});
+const ts = getCurrentTimestamp();
+
+/**
+ * Build a JSON delivery
+ */
+function delivery(
+  name: WebhookProvider,
+  headers: Record<string, string>,
+  options: { payload?: string; secret?: string; provider?: BaseProvider } = {}
+): Delivery {
+  const payload = options.payload ?? PAYLOAD;
+  return {
+    provider: options.provider ?? getProvider(name),
+    secret: options.secret ?? SECRET,
+    body: JSON.parse(payload) as unknown,
+    rawBody: Buffer.from(payload),
+    headers,
+    url: WEBHOOK_URL,
+  };
+}
+
+/**
+ * Verification steps of the plugin: read, parse and verify the signature
+ */
+async function verifyDelivery({ provider, secret, body, rawBody, headers, url }: Delivery) {
+  const context = { method: 'POST', url, body, headers };
+  const signatureHeader = provider.readSignature(context);
+  if (!signatureHeader) {
+    throw new Error(`${provider.name}: missing signature`);
+  }
+  const timestamp = provider.extractTimestamp(context, signatureHeader);
+  const signatures = provider.extractSignatures(signatureHeader);
+  return provider.verify(signatures, rawBody, secret, timestamp, context);
+}
+
+const ed25519 = createEd25519KeyPair();
+const ecdsa = createEcdsaKeyPair();
+const rsa = createRsaKeyPair();
+const jwtKey = createJwtKeyPair('ES256');
+const twilioParams = { CallSid: 'CA123', From: '+15551234567', To: '+15557654321' };
+const twitchTimestamp = new Date(ts * 1000).toISOString();
+const linearPayload = JSON.stringify({ action: 'create', webhookTimestamp: ts * 1000 });
+const mailgunPayload = JSON.stringify({
+  signature: {
+    timestamp: String(ts),
+    token: 'token-1',
+    signature: createMailgunSignature(ts, 'token-1', SECRET),
+  },
+  'event-data': { event: 'delivered' },
+});
+const snsMessage = createSnsMessage({}, rsa.privateKey);
+const standardSecret = `whsec_${Buffer.from(SECRET).toString('base64')}`;
+
+const deliveries: Record<string, Delivery> = {
+  stripe: delivery('stripe', { 'stripe-signature': createStripeSignature(PAYLOAD, SECRET, ts) }),
+  github: delivery('github', { 'x-hub-signature-256': createGitHubSignature(PAYLOAD, SECRET) }),
+  shopify: delivery('shopify', {
+    'x-shopify-hmac-sha256': createShopifySignature(PAYLOAD, SECRET),
+  }),
+  slack: delivery('slack', {
+    'x-slack-signature': createSlackSignature(PAYLOAD, SECRET, ts),
+    'x-slack-request-timestamp': String(ts),
+  }),
+  twilio: {
+    provider: getProvider('twilio'),
+    secret: SECRET,
+    body: twilioParams,
+    rawBody: Buffer.from(new URLSearchParams(twilioParams).toString()),
+    headers: { 'x-twilio-signature': createTwilioSignature(WEBHOOK_URL, twilioParams, SECRET) },
+    url: WEBHOOK_URL,
+  },
+  'standard-webhooks': delivery(
+    'standard-webhooks',
+    {
+      'webhook-id': 'msg_1',
+      'webhook-timestamp': String(ts),
+      'webhook-signature': createStandardWebhooksSignature('msg_1', PAYLOAD, standardSecret, ts),
+    },
+    { secret: standardSecret }
+  ),
+  discord: delivery(
+    'discord',
+    {
+      'x-signature-ed25519': createDiscordSignature(PAYLOAD, ed25519.privateKey, ts),
+      'x-signature-timestamp': String(ts),
+    },
+    { secret: ed25519.publicKey }
+  ),
+  sendgrid: delivery(
+    'sendgrid',
+    {
+      'x-twilio-email-event-webhook-signature': createSendGridSignature(
+        PAYLOAD,
+        ecdsa.privateKey,
+        ts
+      ),
+      'x-twilio-email-event-webhook-timestamp': String(ts),
+    },
+    { secret: ecdsa.publicKey }
+  ),
+  paddle: delivery('paddle', { 'paddle-signature': createPaddleSignature(PAYLOAD, SECRET, ts) }),
+  linear: delivery(
+    'linear',
+    { 'linear-signature': createLinearSignature(linearPayload, SECRET) },
+    { payload: linearPayload }
+  ),
+  gitlab: delivery('gitlab', { 'x-gitlab-token': SECRET }),
+  meta: delivery('meta', { 'x-hub-signature-256': createGitHubSignature(PAYLOAD, SECRET) }),
+  twitch: delivery('twitch', {
+    'twitch-eventsub-message-id': 'msg-1',
+    'twitch-eventsub-message-timestamp': twitchTimestamp,
+    'twitch-eventsub-message-signature': createTwitchSignature(
+      'msg-1',
+      twitchTimestamp,
+      PAYLOAD,
+      SECRET
+    ),
+  }),
+  zoom: delivery('zoom', {
+    'x-zm-signature': createZoomSignature(PAYLOAD, SECRET, ts),
+    'x-zm-request-timestamp': String(ts),
+  }),
+  hubspot: delivery('hubspot', {
+    'x-hubspot-signature-v3': createHubSpotSignature(
+      'POST',
+      WEBHOOK_URL,
+      PAYLOAD,
+      SECRET,
+      ts * 1000
+    ),
+    'x-hubspot-request-timestamp': String(ts * 1000),
+  }),
+  mailgun: delivery('mailgun', {}, { payload: mailgunPayload }),
+  square: delivery('square', {
+    'x-square-hmacsha256-signature': createSquareSignature(WEBHOOK_URL, PAYLOAD, SECRET),
+  }),
+  jwt: delivery(
+    'jwt',
+    {
+      authorization: `Bearer ${createJwt({ aud: WEBHOOK_URL, exp: ts + 3600, iat: ts }, jwtKey.privateKey, 'ES256')}`,
+    },
+    {
+      secret: '',
+      provider: getProvider('jwt', undefined, {
+        jwt: { jwks: { keys: [jwtKey.jwk] }, audience: WEBHOOK_URL },
+      }),
+    }
+  ),
+  sns: delivery(
+    'sns',
+    {},
+    {
+      payload: JSON.stringify(snsMessage),
+      secret: '',
+      provider: getProvider('sns', undefined, {
+        sns: { fetchCertificate: () => Promise.resolve(rsa.publicKey) },
+      }),
+    }
+  ),
+};
+
+// A harness measuring rejected deliveries would be meaningless
+for (const [name, entry] of Object.entries(deliveries)) {
+  if (!(await verifyDelivery(entry))) {
+    throw new Error(`${name}: benchmark delivery does not verify`);
+  }
+}
+
+describe('provider verification', () => {
+  for (const [name, entry] of Object.entries(deliveries)) {
+    bench(name, async () => {
+      await verifyDelivery(entry);
+    });
+  }
+});
+
+describe('plugin (Shopify burst)', async () => {
+  const fastify = Fastify({ logger: false });
+  await fastify.register(webhookVerify, {
+    providers: { shopify: SECRET },
+    replayProtection: { enabled: false },
+    secretCheck: false,
+  });
+  fastify.post(
+    '/webhooks/shopify',
+    { preHandler: fastify.webhookVerify({ provider: 'shopify' }) },
+    async () => ({ ok: true })
+  );
+  await fastify.ready();
+
+  const headers = {
+    'content-type': 'application/json',
+    'x-shopify-hmac-sha256': createShopifySignature(PAYLOAD, SECRET),
+    'x-shopify-topic': 'orders/create',
+  };
+
+  bench('shopify inject', async () => {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/webhooks/shopify',
+      headers,
+      payload: PAYLOAD,
+    });
+    if (response.statusCode !== 200) {
+      throw new Error(`Unexpected status ${String(response.statusCode)}`);
+    }
+  });
+});
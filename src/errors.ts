@@ -94,3 +94,39 @@ export class MissingSecretError extends WebhookError {
     this.name = 'MissingSecretError';
   }
 }
+
+/**
+ * Event livemode does not match the route (e.g. a test-mode Stripe event on a live route)
+ */
+export class LivemodeMismatchError extends WebhookError {
+  constructor(provider: string, livemode: boolean) {
+    super(
+      'LIVEMODE_MISMATCH',
+      `Unexpected ${livemode ? 'live' : 'test'}-mode webhook for ${provider}`,
+      403,
+      provider
+    );
+    this.name = 'LivemodeMismatchError';
+  }
+}
+
+/**
+ * Verification keys could not be loaded (e.g. a JWKS or certificate download failed)
+ * Answered with 503 so senders retry the delivery
+ */
+export class KeyUnavailableError extends WebhookError {
+  constructor(provider: string) {
+    super('KEY_UNAVAILABLE', `Verification keys unavailable for ${provider}`, 503, provider);
+    this.name = 'KeyUnavailableError';
+  }
+}
+
+/**
+ * Invalid verify token in a subscription handshake
+ */
+export class InvalidVerifyTokenError extends WebhookError {
+  constructor(provider: string) {
+    super('INVALID_VERIFY_TOKEN', `Invalid webhook verify token for ${provider}`, 403, provider);
+    this.name = 'InvalidVerifyTokenError';
+  }
+}
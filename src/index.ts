@@ -5,14 +5,44 @@ import type { FastifyWebhookVerifyOptions } from './types.js';
 export type {
   FastifyWebhookVerifyOptions,
   WebhookProvider,
+  CustomWebhookProviders,
+  WebhookProviders,
   WebhookRouteOptions,
+  WebhookEndpointOptions,
+  WebhookHandshakeOptions,
   WebhookData,
+  WebhookMetadata,
+  WebhookAutoResponse,
+  WebhookRequestContext,
+  WebhookUrlOptions,
   WebhookVerificationResult,
   WebhookVerifyHook,
   WebhookErrorHandler,
   ReplayProtectionConfig,
   ReplayStorage,
   CustomProviderConfig,
+  ProviderOptions,
+  SnsMessage,
+  SnsProviderOptions,
+  SnsCertificateCache,
+  JwtProviderOptions,
+  JwtAlgorithm,
+  JsonWebKeySet,
+  HubSpotProviderOptions,
+  SquareProviderOptions,
+  GitHubProviderOptions,
+  StripeProviderOptions,
+  ShopifyQueryMode,
+  ShopifyQueryVerifyOptions,
+  ShopifyQueryData,
+  WebhookSecret,
+  WebhookSecretEntry,
+  WebhookSecretConfig,
+  WebhookSecretResolver,
+  SecretResolverOptions,
+  SecretStore,
+  EnvSecretStoreOptions,
+  FileSecretStoreOptions,
 } from './types.js';
 
 export {
@@ -24,20 +54,45 @@ export {
   MissingRawBodyError,
   UnknownProviderError,
   MissingSecretError,
+  InvalidVerifyTokenError,
+  LivemodeMismatchError,
+  KeyUnavailableError,
 } from './errors.js';
 
 export {
   BaseProvider,
+  PublicKeyProvider,
+  TokenProvider,
   StripeProvider,
   GitHubProvider,
   SlackProvider,
   ShopifyProvider,
   TwilioProvider,
+  StandardWebhooksProvider,
+  DiscordProvider,
+  SendGridProvider,
+  PaddleProvider,
+  LinearProvider,
+  GitLabProvider,
+  MetaProvider,
+  TwitchProvider,
+  ZoomProvider,
+  SnsProvider,
+  JwtProvider,
+  HubSpotProvider,
+  MailgunProvider,
+  SquareProvider,
   CustomProvider,
   getProvider,
+  createProviderRegistry,
+  type ProviderDefinition,
+  type ProviderRegistry,
+  parseSnsMessage,
 } from './providers/index.js';
 
 export { createReplayProtection, type ReplayGuard } from './replay-protection.js';
+export { createSecretResolver, redactSecret } from './secrets.js';
+export { createEnvSecretStore, createFileSecretStore } from './secret-stores.js';
 
 const fastifyWebhookVerify = fp<FastifyWebhookVerifyOptions>(fastifyWebhookVerifyPlugin, {
   fastify: '5.x',
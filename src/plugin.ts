@@ -1,19 +1,38 @@
-import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { pipeline, Transform } from 'stream';
+import type { FastifyInstance, FastifyRequest, FastifyReply, RouteHandlerMethod } from 'fastify';
 import type {
   FastifyWebhookVerifyOptions,
+  WebhookAutoResponse,
+  WebhookEndpointOptions,
+  WebhookHandshakeOptions,
   WebhookRouteOptions,
   WebhookData,
+  WebhookRequestContext,
+  WebhookVerificationResult,
+  WebhookProvider,
+  WebhookSecret,
+  WebhookSecretConfig,
   ReplayProtectionConfig,
+  ShopifyQueryVerifyOptions,
 } from './types.js';
-import { getProvider } from './providers/index.js';
+import {
+  createProviderRegistry,
+  getProvider,
+  ShopifyProvider,
+  type BaseProvider,
+} from './providers/index.js';
 import { createReplayProtection, type ReplayGuard } from './replay-protection.js';
+import { getActiveSecrets, redactSecret, resolveSecret, type ActiveSecret } from './secrets.js';
+import { buildRequestUrl, parseFormBody } from './utils.js';
 import {
+  WebhookError,
   MissingSignatureError,
   InvalidSignatureError,
   MissingRawBodyError,
   ReplayAttackError,
   TimestampExpiredError,
   MissingSecretError,
+  InvalidVerifyTokenError,
 } from './errors.js';
 
 const DEFAULT_REPLAY_PROTECTION: ReplayProtectionConfig = {
@@ -21,6 +40,17 @@ const DEFAULT_REPLAY_PROTECTION: ReplayProtectionConfig = {
   tolerance: 300, // 5 minutes
 };
 
+/**
+ * Send a provider-generated response
+ */
+async function sendAutoResponse(reply: FastifyReply, response: WebhookAutoResponse): Promise<void> {
+  reply.code(response.statusCode ?? 200);
+  if (response.contentType) {
+    reply.type(response.contentType);
+  }
+  await reply.send(response.body);
+}
+
 /**
  * Main plugin implementation
  */
@@ -31,27 +61,167 @@ export function fastifyWebhookVerifyPlugin(
   const {
     providers = {},
     replayProtection = DEFAULT_REPLAY_PROTECTION,
+    url: urlOptions,
     errorHandler,
     onVerify,
+    customProviders = {},
+    secretStore,
+    secretCheck = 'warn',
+    formBody = false,
     logAttempts = false,
   } = options;
 
+  // Named providers of this instance
+  const registry = createProviderRegistry(customProviders);
+
+  // Routes checked for a secret on startup
+  const secretRoutes: WebhookRouteOptions[] = [];
+
   // Setup replay protection
   let replayGuard: ReplayGuard | null = null;
   if (replayProtection.enabled) {
     replayGuard = createReplayProtection(replayProtection);
   }
 
+  // Nonces being checked, so concurrent identical deliveries cannot both pass the check
+  const checkingNonces = new Set<string>();
+
+  // Replay nonces recorded for verified requests
+  const recordedNonces = new WeakMap<FastifyRequest, string>();
+
+  // Deliveries that failed in the route (5xx) are retried with the same delivery id, so
+  // their nonce is released
+  fastify.addHook('onResponse', async (request, reply) => {
+    const nonce = recordedNonces.get(request);
+    if (replayGuard && nonce !== undefined && reply.statusCode >= 500) {
+      await replayGuard.release(nonce);
+    }
+  });
+
+  // Log secret store changes (provider names only, never values)
+  const unsubscribe = secretStore?.subscribe?.((provider) => {
+    fastify.log.info({ provider }, 'Webhook secrets changed');
+  });
+
   // Cleanup on close
-  fastify.addHook('onClose', () => {
+  fastify.addHook('onClose', async () => {
     if (replayGuard?.destroy) {
       replayGuard.destroy();
     }
+    unsubscribe?.();
+    await secretStore?.close?.();
+  });
+
+  /**
+   * Read the secret(s) of a provider: route secret, then providers, then the secret store
+   */
+  const readSecret = async (
+    providerName: WebhookProvider,
+    routeSecret: WebhookSecretConfig | undefined,
+    request: FastifyRequest,
+    tenant?: string
+  ): Promise<WebhookSecret | undefined> => {
+    let secretConfig = routeSecret;
+    if (!secretConfig && providerName !== 'custom') {
+      secretConfig = providers[providerName];
+    }
+    if (secretConfig) {
+      return resolveSecret(secretConfig, request, providerName);
+    }
+    if (secretStore && providerName !== 'custom') {
+      return secretStore.get(providerName, tenant);
+    }
+    return undefined;
+  };
+
+  // Warn before the first request when form-posting providers have no form parser, as
+  // their deliveries would be refused with 415
+  fastify.addHook('onReady', () => {
+    if (fastify.hasContentTypeParser('application/x-www-form-urlencoded')) {
+      return Promise.resolve();
+    }
+
+    const formProviders = new Set<string>();
+    for (const routeOptions of secretRoutes) {
+      const { provider: providerName, customConfig } = routeOptions;
+      try {
+        if (getProvider(providerName, customConfig, routeOptions, registry).postsFormBody) {
+          formProviders.add(providerName);
+        }
+      } catch {
+        continue;
+      }
+    }
+
+    if (formProviders.size > 0) {
+      fastify.log.warn(
+        { providers: [...formProviders] },
+        'No application/x-www-form-urlencoded parser: register @fastify/formbody or set formBody: true'
+      );
+    }
+    return Promise.resolve();
+  });
+
+  // Report routes without secret before the first request
+  fastify.addHook('onReady', async () => {
+    if (!secretCheck) {
+      return;
+    }
+
+    const missing = new Set<string>();
+    for (const routeOptions of secretRoutes) {
+      const { provider: providerName, customConfig, secret: routeSecret } = routeOptions;
+      let secretConfig = routeSecret;
+      if (!secretConfig && providerName !== 'custom') {
+        secretConfig = providers[providerName];
+      }
+      if (typeof secretConfig === 'function' || routeOptions.tenant) {
+        continue;
+      }
+
+      let requiresSecret: boolean;
+      try {
+        requiresSecret = getProvider(
+          providerName,
+          customConfig,
+          routeOptions,
+          registry
+        ).requiresSecret;
+      } catch {
+        continue;
+      }
+      if (!requiresSecret) {
+        continue;
+      }
+
+      let secret: WebhookSecret | undefined = secretConfig;
+      if (!secret && secretStore && providerName !== 'custom') {
+        secret = await secretStore.get(providerName);
+      }
+      const secrets = getActiveSecrets(secret);
+      if (secrets.length === 0) {
+        missing.add(providerName);
+      } else if (logAttempts) {
+        fastify.log.info(
+          { provider: providerName, secrets: secrets.map((s) => redactSecret(s.secret)) },
+          'Webhook secret loaded'
+        );
+      }
+    }
+
+    if (missing.size === 0) {
+      return;
+    }
+    if (secretCheck === 'throw') {
+      throw new MissingSecretError([...missing].join(', '));
+    }
+    fastify.log.warn({ providers: [...missing] }, 'Missing webhook secrets');
   });
 
   // Decorate request with webhook data
   fastify.decorateRequest('webhook', undefined);
   fastify.decorateRequest('rawBody', undefined);
+  fastify.decorateRequest('shopifyQuery', undefined);
 
   // Raw body parser - preserve original body for signature verification
   fastify.addContentTypeParser(
@@ -68,29 +238,63 @@ export function fastifyWebhookVerifyPlugin(
     }
   );
 
+  // Form body parser - Twilio and Slack post application/x-www-form-urlencoded (opt-in, so
+  // apps can register their own parser such as @fastify/formbody, before or after)
+  if (formBody) {
+    fastify.addContentTypeParser(
+      'application/x-www-form-urlencoded',
+      { parseAs: 'buffer' },
+      (_req, body: Buffer, done) => {
+        done(null, parseFormBody(body));
+      }
+    );
+  }
+
+  // Record the raw body of form requests and SNS messages (JSON sent as text/plain) while
+  // the parsers of the app read them
+  fastify.addHook('preParsing', async (request, _reply, payload) => {
+    const contentType = request.headers['content-type']?.toLowerCase();
+    const isForm = contentType?.startsWith('application/x-www-form-urlencoded');
+    const isSnsMessage =
+      contentType?.startsWith('text/plain') && request.headers['x-amz-sns-message-type'];
+    if (!isForm && !isSnsMessage) {
+      return payload;
+    }
+
+    const chunks: Buffer[] = [];
+    const recorder = new Transform({
+      transform(chunk: Buffer, _encoding, callback): void {
+        chunks.push(chunk);
+        callback(null, chunk);
+      },
+      flush(callback): void {
+        request.rawBody = Buffer.concat(chunks);
+        callback();
+      },
+    });
+    // Read errors (e.g. aborted requests) reach the parser through the recorder
+    return pipeline(payload, recorder, () => undefined);
+  });
+
   /**
    * Create verification handler for a route
    */
   const createVerifyHandler = (
     routeOptions: WebhookRouteOptions
   ): ((request: FastifyRequest, reply: FastifyReply) => Promise<void>) => {
-    return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
-      const { provider: providerName, customConfig } = routeOptions;
+    secretRoutes.push(routeOptions);
+    const { provider: providerName, customConfig } = routeOptions;
 
-      // Get secret from route options or global providers
-      let secret = routeOptions.secret;
-      if (!secret && providerName !== 'custom') {
-        secret = providers[providerName];
-      }
+    // Provider instance shared by the requests of the route. Known providers are created
+    // with the route, so invalid options fail at startup; providers registered after the
+    // route are created on first use
+    let routeProvider: BaseProvider | undefined = registry.has(providerName)
+      ? getProvider(providerName, customConfig, routeOptions, registry)
+      : undefined;
 
-      if (!secret) {
-        const error = new MissingSecretError(providerName);
-        if (errorHandler) {
-          await errorHandler(error, request, reply);
-          return;
-        }
-        throw error;
-      }
+    return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+      routeProvider ??= getProvider(providerName, customConfig, routeOptions, registry);
+      const provider = routeProvider;
 
       // 1. Verify raw body exists
       const rawBody = request.rawBody;
@@ -103,12 +307,18 @@ export function fastifyWebhookVerifyPlugin(
         throw error;
       }
 
-      // 2. Get provider
-      const provider = getProvider(providerName, customConfig);
+      // 2. Build request context
+      const context: WebhookRequestContext = {
+        method: request.method,
+        url: buildRequestUrl(request, { ...urlOptions, ...routeOptions.url }),
+        body: request.body,
+        rawBody,
+        headers: request.headers,
+      };
 
-      // 3. Extract signature header
-      const signatureHeader = request.headers[provider.signatureHeader];
-      if (!signatureHeader || typeof signatureHeader !== 'string') {
+      // 3. Extract signature (header, or body for providers such as SNS)
+      const signatureHeader = provider.readSignature(context);
+      if (!signatureHeader) {
         const error = new MissingSignatureError(providerName);
         if (logAttempts) {
           request.log.warn({ provider: providerName }, 'Missing webhook signature');
@@ -120,26 +330,35 @@ export function fastifyWebhookVerifyPlugin(
         throw error;
       }
 
-      // 4. Extract timestamp (if supported)
-      let timestamp: Date | undefined;
-      if (provider.timestampHeader) {
-        const tsHeader = request.headers[provider.timestampHeader];
-        if (tsHeader && typeof tsHeader === 'string') {
-          timestamp = provider.parseTimestamp(tsHeader);
+      // 4. Get secret(s) from route options, global providers or the secret store
+      // (only for signed requests: tenants come from untrusted request data)
+      const secrets = getActiveSecrets(
+        await readSecret(providerName, routeOptions.secret, request, routeOptions.tenant?.(request))
+      );
+      if (secrets.length === 0) {
+        if (provider.requiresSecret) {
+          const error = new MissingSecretError(providerName);
+          if (errorHandler) {
+            await errorHandler(error, request, reply);
+            return;
+          }
+          throw error;
         }
-      } else if (providerName === 'stripe') {
-        // Stripe has timestamp in signature header
-        timestamp = provider.parseTimestamp(signatureHeader);
+        secrets.push({ secret: '', keyId: undefined });
       }
 
-      // 5. Verify timestamp (replay protection)
+      // 5. Extract timestamp (if supported)
+      const timestamp = provider.extractTimestamp(context, signatureHeader);
+
+      // 6. Verify timestamp (replay protection)
       const rpConfig = { ...replayProtection, ...routeOptions.replayProtection };
       if (rpConfig.enabled && timestamp) {
         const now = Date.now();
         const webhookTime = timestamp.getTime();
         const tolerance = (rpConfig.tolerance ?? 300) * 1000;
 
-        if (Math.abs(now - webhookTime) > tolerance) {
+        // Unparseable timestamps are treated as expired
+        if (Number.isNaN(webhookTime) || Math.abs(now - webhookTime) > tolerance) {
           const error = new TimestampExpiredError(
             providerName,
             timestamp,
@@ -156,10 +375,10 @@ export function fastifyWebhookVerifyPlugin(
         }
       }
 
-      // 6. Verify signature
-      let signature: string;
+      // 7. Verify signature
+      let signatures: string[];
       try {
-        signature = provider.extractSignature(signatureHeader);
+        signatures = provider.extractSignatures(signatureHeader);
       } catch {
         const error = new InvalidSignatureError(providerName);
         if (logAttempts) {
@@ -172,10 +391,38 @@ export function fastifyWebhookVerifyPlugin(
         throw error;
       }
 
-      const expectedSignature = provider.computeSignature(rawBody, secret, timestamp);
-      const isValid = provider.verifySignature(signature, expectedSignature);
+      // Every active secret is tried, so timing does not reveal which one matched
+      let matched: ActiveSecret | undefined;
+      try {
+        for (const candidate of secrets) {
+          const valid = await provider.verify(
+            signatures,
+            rawBody,
+            candidate.secret,
+            timestamp,
+            context
+          );
+          if (valid) {
+            matched ??= candidate;
+          }
+        }
+      } catch (err) {
+        // Providers may reject with a specific error (e.g. expired JWT claims, or a retryable
+        // KeyUnavailableError when keys cannot be downloaded); any other failure (missing
+        // signed header or body field) is an invalid signature
+        const error = err instanceof WebhookError ? err : new InvalidSignatureError(providerName);
+        if (logAttempts) {
+          const reason = err instanceof Error ? err.message : String(err);
+          request.log.warn({ provider: providerName, code: error.code, reason }, error.message);
+        }
+        if (errorHandler) {
+          await errorHandler(error, request, reply);
+          return;
+        }
+        throw error;
+      }
 
-      if (!isValid) {
+      if (!matched) {
         const error = new InvalidSignatureError(providerName);
         if (logAttempts) {
           request.log.warn({ provider: providerName }, 'Invalid webhook signature');
@@ -187,10 +434,25 @@ export function fastifyWebhookVerifyPlugin(
         throw error;
       }
 
-      // 7. Check replay (nonce check)
-      if (replayGuard && rpConfig.enabled && timestamp) {
-        const nonce = `${providerName}:${signature}:${String(timestamp.getTime())}`;
-        const isDuplicate = await replayGuard.check(nonce);
+      // 8. Check replay (nonce check)
+      // Delivery ids are checked on their own; otherwise signature + timestamp form the nonce
+      const deliveryId =
+        provider.extractNonce(context) ??
+        (timestamp ? `${signatures.join(' ')}:${String(timestamp.getTime())}` : undefined);
+      if (replayGuard && rpConfig.enabled && deliveryId) {
+        const nonce = `${providerName}:${deliveryId}`;
+        let isDuplicate = checkingNonces.has(nonce);
+        if (!isDuplicate) {
+          checkingNonces.add(nonce);
+          try {
+            isDuplicate = await replayGuard.check(nonce);
+            if (!isDuplicate) {
+              await replayGuard.record(nonce);
+            }
+          } finally {
+            checkingNonces.delete(nonce);
+          }
+        }
 
         if (isDuplicate) {
           const error = new ReplayAttackError(providerName);
@@ -204,11 +466,11 @@ export function fastifyWebhookVerifyPlugin(
           throw error;
         }
 
-        await replayGuard.record(nonce);
+        recordedNonces.set(request, nonce);
       }
 
-      // 8. Populate request with webhook data
-      const eventType = provider.extractEventType(request.body as Record<string, unknown>);
+      // 9. Populate request with webhook data
+      const eventType = provider.extractEventType(request.body as Record<string, unknown>, context);
 
       const webhookData: WebhookData = {
         verified: true,
@@ -217,24 +479,178 @@ export function fastifyWebhookVerifyPlugin(
         rawBody,
         eventType,
       };
+      const claims = provider.extractClaims(context);
+      if (claims) {
+        webhookData.claims = claims;
+      }
+      const metadata = provider.extractMetadata(context);
+      if (metadata) {
+        webhookData.metadata = metadata;
+      }
+      const payload = provider.extractPayload(request.body, context);
+      if (payload !== undefined) {
+        webhookData.payload = payload;
+      }
+      if (matched.keyId !== undefined) {
+        webhookData.keyId = matched.keyId;
+      }
 
       request.webhook = webhookData;
 
-      // 9. Post-verification hook
+      // 10. Post-verification hook
       if (onVerify) {
-        await onVerify(
-          {
-            valid: true,
-            provider: providerName,
-            timestamp,
-            eventType,
-          },
-          request
+        const result: WebhookVerificationResult = {
+          valid: true,
+          provider: providerName,
+          timestamp,
+          eventType,
+        };
+        if (matched.keyId !== undefined) {
+          result.keyId = matched.keyId;
+        }
+        await onVerify(result, request);
+      }
+
+      if (logAttempts) {
+        request.log.info(
+          { provider: providerName, eventType, keyId: matched.keyId },
+          'Webhook verified successfully'
         );
       }
 
+      // 11. Answer provider handshakes (e.g. Discord PING)
+      const autoResponse =
+        routeOptions.autoRespond === false
+          ? undefined
+          : await provider.getAutoResponse(request.body, context, matched.secret);
+      if (autoResponse) {
+        await sendAutoResponse(reply, autoResponse);
+      }
+    };
+  };
+
+  /**
+   * Create subscription handshake handler for a route
+   */
+  const createHandshakeHandler = (
+    handshakeOptions: WebhookHandshakeOptions
+  ): ((request: FastifyRequest, reply: FastifyReply) => Promise<void>) => {
+    const { provider: providerName, verifyToken } = handshakeOptions;
+    const provider = getProvider(providerName, undefined, {}, registry);
+    if (!provider.supportsHandshake) {
+      throw new Error(`Provider ${providerName} does not support verification handshakes`);
+    }
+
+    return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+      const response = provider.answerHandshake(
+        request.query as Record<string, unknown>,
+        verifyToken
+      );
+
+      if (!response) {
+        const error = new InvalidVerifyTokenError(providerName);
+        if (logAttempts) {
+          request.log.warn({ provider: providerName }, 'Invalid webhook verify token');
+        }
+        if (errorHandler) {
+          await errorHandler(error, request, reply);
+          return;
+        }
+        throw error;
+      }
+
       if (logAttempts) {
-        request.log.info({ provider: providerName, eventType }, 'Webhook verified successfully');
+        request.log.info({ provider: providerName }, 'Webhook handshake answered');
+      }
+      await sendAutoResponse(reply, response);
+    };
+  };
+
+  /**
+   * Create Shopify query signature handler (OAuth callbacks, app proxy requests)
+   */
+  const createShopifyQueryHandler = (
+    queryOptions: ShopifyQueryVerifyOptions
+  ): ((request: FastifyRequest, reply: FastifyReply) => Promise<void>) => {
+    const { mode } = queryOptions;
+    const provider = new ShopifyProvider();
+    secretRoutes.push(
+      queryOptions.secret === undefined
+        ? { provider: 'shopify' }
+        : { provider: 'shopify', secret: queryOptions.secret }
+    );
+
+    return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+      const params = new URL(request.url, 'http://localhost').searchParams;
+      if (!provider.readQuerySignature(params, mode)) {
+        const error = new MissingSignatureError('shopify');
+        if (logAttempts) {
+          request.log.warn({ provider: 'shopify', mode }, 'Missing Shopify query signature');
+        }
+        if (errorHandler) {
+          await errorHandler(error, request, reply);
+          return;
+        }
+        throw error;
+      }
+
+      // Secrets are only read for signed requests
+      const secrets = getActiveSecrets(await readSecret('shopify', queryOptions.secret, request));
+      if (secrets.length === 0) {
+        const error = new MissingSecretError('shopify');
+        if (errorHandler) {
+          await errorHandler(error, request, reply);
+          return;
+        }
+        throw error;
+      }
+
+      // Timestamp parameter (unix seconds), checked against the replay tolerance
+      const timestampParam = params.get('timestamp');
+      const timestamp = timestampParam ? provider.parseTimestamp(timestampParam) : undefined;
+      const rpConfig = { ...replayProtection, ...queryOptions.replayProtection };
+      if (rpConfig.enabled && timestamp) {
+        const tolerance = rpConfig.tolerance ?? 300;
+        const webhookTime = timestamp.getTime();
+        if (Number.isNaN(webhookTime) || Math.abs(Date.now() - webhookTime) > tolerance * 1000) {
+          const error = new TimestampExpiredError('shopify', timestamp, tolerance);
+          if (logAttempts) {
+            request.log.warn({ provider: 'shopify', mode, timestamp }, 'Shopify query expired');
+          }
+          if (errorHandler) {
+            await errorHandler(error, request, reply);
+            return;
+          }
+          throw error;
+        }
+      }
+
+      const shop = params.get('shop');
+      let matched: ActiveSecret | undefined;
+      for (const candidate of secrets) {
+        if (provider.verifyQuery(params, candidate.secret, mode)) {
+          matched ??= candidate;
+        }
+      }
+      if (!shop || !matched) {
+        const error = new InvalidSignatureError('shopify');
+        if (logAttempts) {
+          request.log.warn({ provider: 'shopify', mode }, 'Invalid Shopify query signature');
+        }
+        if (errorHandler) {
+          await errorHandler(error, request, reply);
+          return;
+        }
+        throw error;
+      }
+
+      request.shopifyQuery = { verified: true, mode, shop, timestamp };
+      if (matched.keyId !== undefined) {
+        request.shopifyQuery.keyId = matched.keyId;
+      }
+
+      if (logAttempts) {
+        request.log.info({ provider: 'shopify', mode, shop }, 'Shopify query verified');
       }
     };
   };
@@ -244,5 +660,31 @@ export function fastifyWebhookVerifyPlugin(
     return createVerifyHandler(routeOptions);
   });
 
+  fastify.decorate('webhookHandshake', (handshakeOptions: WebhookHandshakeOptions) => {
+    return createHandshakeHandler(handshakeOptions);
+  });
+
+  fastify.decorate('shopifyVerify', (queryOptions: ShopifyQueryVerifyOptions) => {
+    return createShopifyQueryHandler(queryOptions);
+  });
+
+  fastify.decorate('webhookProviders', registry);
+
+  fastify.decorate(
+    'webhookRoute',
+    function (
+      this: FastifyInstance,
+      path: string,
+      endpointOptions: WebhookEndpointOptions,
+      handler: RouteHandlerMethod
+    ) {
+      const { verifyToken, ...routeOptions } = endpointOptions;
+      if (verifyToken !== undefined) {
+        this.get(path, createHandshakeHandler({ provider: routeOptions.provider, verifyToken }));
+      }
+      this.post(path, { preHandler: this.webhookVerify(routeOptions) }, handler);
+    }
+  );
+
   return Promise.resolve();
 }
@@ -1,11 +1,28 @@
-import { createHmac } from 'crypto';
-import { timingSafeCompare } from '../utils.js';
+import { createHmac, type KeyObject } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { getBodyField, getHeader, getSecretKey, timingSafeCompare } from '../utils.js';
+import type { WebhookAutoResponse, WebhookMetadata, WebhookRequestContext } from '../types.js';
+
+/**
+ * Timestamp representation: unix seconds, unix milliseconds or ISO 8601 / RFC 3339
+ */
+export type TimestampFormat = 'unix' | 'unix-ms' | 'iso8601';
 
 export interface WebhookProviderConfig {
   name: string;
-  signatureHeader: string;
+  signatureHeader: string | undefined;
+  /** Body field holding the signature when it is not sent in a header */
+  signatureField?: string | undefined;
   timestampHeader: string | undefined;
-  algorithm: 'sha1' | 'sha256' | 'sha512';
+  /** Body field holding the timestamp when it is not sent in a header */
+  timestampField?: string | undefined;
+  /** Timestamp unit (default: unix seconds) */
+  timestampFormat?: TimestampFormat | undefined;
+  /**
+   * HMAC digest, public-key scheme (PublicKeyProvider), plain shared token (TokenProvider)
+   * or bearer JWT (JwtProvider)
+   */
+  algorithm: 'sha1' | 'sha256' | 'sha512' | 'ed25519' | 'ecdsa-sha256' | 'token' | 'jwt';
   signatureEncoding: 'hex' | 'base64';
 }
 
@@ -15,6 +32,15 @@ export interface WebhookProviderConfig {
 export abstract class BaseProvider {
   protected readonly config: WebhookProviderConfig;
 
+  /** Whether the provider verifies endpoints with a GET handshake */
+  readonly supportsHandshake: boolean = false;
+
+  /** Whether a secret must be configured (false for certificate-based providers) */
+  readonly requiresSecret: boolean = true;
+
+  /** Whether the provider posts application/x-www-form-urlencoded bodies */
+  readonly postsFormBody: boolean = false;
+
   constructor(config: WebhookProviderConfig) {
     this.config = config;
   }
@@ -23,14 +49,26 @@ export abstract class BaseProvider {
     return this.config.name;
   }
 
-  get signatureHeader(): string {
+  get signatureHeader(): string | undefined {
     return this.config.signatureHeader;
   }
 
+  get signatureField(): string | undefined {
+    return this.config.signatureField;
+  }
+
   get timestampHeader(): string | undefined {
     return this.config.timestampHeader;
   }
 
+  get timestampField(): string | undefined {
+    return this.config.timestampField;
+  }
+
+  get timestampFormat(): TimestampFormat {
+    return this.config.timestampFormat ?? 'unix';
+  }
+
   get algorithm(): string {
     return this.config.algorithm;
   }
@@ -39,23 +77,136 @@ export abstract class BaseProvider {
     return this.config.signatureEncoding;
   }
 
+  /**
+   * Read the raw signature value from the request
+   * Reads the signature body field when configured, otherwise the signature header
+   */
+  readSignature(context: WebhookRequestContext): string | undefined {
+    if (this.config.signatureField) {
+      const value = getBodyField(context.body, this.config.signatureField);
+      return typeof value === 'string' && value !== '' ? value : undefined;
+    }
+    return this.readSignatureHeader(context.headers);
+  }
+
+  /**
+   * Read the signature header value from request headers
+   */
+  readSignatureHeader(headers: IncomingHttpHeaders): string | undefined {
+    return this.config.signatureHeader
+      ? getHeader(headers, this.config.signatureHeader)
+      : undefined;
+  }
+
   /**
    * Extract signature from header value
    */
   abstract extractSignature(headerValue: string): string;
 
+  /**
+   * Extract every signature from header value
+   * Override for providers that send several signatures (e.g. during secret rotation)
+   */
+  extractSignatures(headerValue: string): string[] {
+    return [this.extractSignature(headerValue)];
+  }
+
   /**
    * Parse timestamp from header value
    */
   parseTimestamp(headerValue: string): Date {
+    if (this.timestampFormat === 'iso8601') {
+      return new Date(headerValue);
+    }
     const ts = parseInt(headerValue, 10);
-    return new Date(ts * 1000);
+    return new Date(this.timestampFormat === 'unix-ms' ? ts : ts * 1000);
+  }
+
+  /**
+   * Extract the webhook timestamp from the request (if supported)
+   * Reads the timestamp header, or the timestamp body field
+   */
+  extractTimestamp(context: WebhookRequestContext, _signatureHeader: string): Date | undefined {
+    if (this.config.timestampHeader) {
+      const headerValue = getHeader(context.headers, this.config.timestampHeader);
+      return headerValue ? this.parseTimestamp(headerValue) : undefined;
+    }
+    if (this.config.timestampField) {
+      const value = getBodyField(context.body, this.config.timestampField);
+      return typeof value === 'string' || typeof value === 'number'
+        ? this.parseTimestamp(String(value))
+        : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Format a timestamp the way the provider sends it
+   */
+  protected formatTimestamp(timestamp: Date): string {
+    if (this.timestampFormat === 'iso8601') {
+      return timestamp.toISOString();
+    }
+    const ms = timestamp.getTime();
+    return String(this.timestampFormat === 'unix-ms' ? ms : Math.floor(ms / 1000));
+  }
+
+  /**
+   * Extract a unique delivery id used as replay nonce (optional)
+   * When undefined, the nonce is derived from signature and timestamp
+   */
+  extractNonce(_context: WebhookRequestContext): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Decode a payload wrapped in the body (e.g. Slack interactive `payload` field) (optional)
+   */
+  extractPayload(_body: unknown, _context?: WebhookRequestContext): unknown {
+    return undefined;
+  }
+
+  /**
+   * Extract delivery metadata exposed on request.webhook, usually from headers (optional)
+   */
+  extractMetadata(_context: WebhookRequestContext): WebhookMetadata | undefined {
+    return undefined;
+  }
+
+  /**
+   * Read metadata from headers, given metadata keys and the headers they are read from
+   * Only the headers present in the request are included
+   */
+  protected readHeaderMetadata(
+    headers: IncomingHttpHeaders,
+    metadataHeaders: Record<string, string>
+  ): WebhookMetadata {
+    const metadata: WebhookMetadata = {};
+    for (const [key, header] of Object.entries(metadataHeaders)) {
+      const value = getHeader(headers, header);
+      if (value !== undefined) {
+        metadata[key] = value;
+      }
+    }
+    return metadata;
+  }
+
+  /**
+   * Extract verified claims exposed on request.webhook (optional)
+   */
+  extractClaims(_context: WebhookRequestContext): Record<string, unknown> | undefined {
+    return undefined;
   }
 
   /**
    * Compute expected signature
    */
-  abstract computeSignature(rawBody: Buffer, secret: string, timestamp?: Date): string;
+  abstract computeSignature(
+    rawBody: Buffer,
+    secret: string,
+    timestamp?: Date,
+    context?: WebhookRequestContext
+  ): string;
 
   /**
    * Verify signature in timing-safe manner
@@ -65,18 +216,69 @@ export abstract class BaseProvider {
   }
 
   /**
-   * Extract event type from body (optional)
+   * Verify request signatures against the expected one
+   * Succeeds if any provided signature matches.
+   * Override when a request has more than one valid signed payload
+   */
+  verify(
+    signatures: string[],
+    rawBody: Buffer,
+    secret: string,
+    timestamp?: Date,
+    context?: WebhookRequestContext
+  ): boolean | Promise<boolean> {
+    const expected = this.computeSignature(rawBody, secret, timestamp, context);
+    return signatures.some((signature) => this.verifySignature(signature, expected));
+  }
+
+  /**
+   * Extract event type from body or headers (optional)
+   */
+  extractEventType(
+    _body: Record<string, unknown>,
+    _context?: WebhookRequestContext
+  ): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Response sent on behalf of the route after verification (optional)
+   * Used for provider handshakes such as ping or URL validation events
+   */
+  getAutoResponse(
+    _body: unknown,
+    _context: WebhookRequestContext,
+    _secret: string
+  ): WebhookAutoResponse | undefined | Promise<WebhookAutoResponse | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Answer an endpoint verification handshake (optional)
+   * Returns undefined when the handshake is rejected or not supported
    */
-  extractEventType(_body: Record<string, unknown>): string | undefined {
+  answerHandshake(
+    _query: Record<string, unknown>,
+    _verifyToken: string
+  ): WebhookAutoResponse | undefined {
     return undefined;
   }
 
   /**
    * Helper to create HMAC
+   * A list payload is signed part by part, so the raw body is not copied into a string.
+   * String secrets are imported as KeyObjects once and reused
    */
-  protected createHmac(payload: string, secret: string): string {
-    return createHmac(this.config.algorithm, secret)
-      .update(payload)
-      .digest(this.config.signatureEncoding);
+  protected createHmac(
+    payload: string | Buffer | readonly (string | Buffer)[],
+    secret: string | KeyObject
+  ): string {
+    const key = typeof secret === 'string' ? getSecretKey(secret) : secret;
+    const hmac = createHmac(this.config.algorithm, key);
+    const parts = typeof payload === 'string' || Buffer.isBuffer(payload) ? [payload] : payload;
+    for (const part of parts) {
+      hmac.update(part);
+    }
+    return hmac.digest(this.config.signatureEncoding);
   }
 }
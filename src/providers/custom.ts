@@ -8,10 +8,16 @@ export class CustomProvider extends BaseProvider {
   private readonly customConfig: CustomProviderConfig;
 
   constructor(config: CustomProviderConfig) {
+    if (!config.signatureHeader && !config.signatureField) {
+      throw new Error('Custom provider requires signatureHeader or signatureField');
+    }
     super({
       name: config.name,
-      signatureHeader: config.signatureHeader.toLowerCase(),
+      signatureHeader: config.signatureHeader?.toLowerCase(),
+      signatureField: config.signatureField,
       timestampHeader: config.timestampHeader?.toLowerCase(),
+      timestampField: config.timestampField,
+      timestampFormat: config.timestampFormat,
       algorithm: config.algorithm,
       signatureEncoding: config.signatureEncoding ?? 'hex',
     });
@@ -33,10 +39,10 @@ export class CustomProvider extends BaseProvider {
    */
   computeSignature(rawBody: Buffer, secret: string, timestamp?: Date): string {
     if (this.customConfig.buildPayload) {
-      const ts = timestamp ? String(Math.floor(timestamp.getTime() / 1000)) : undefined;
+      const ts = timestamp ? this.formatTimestamp(timestamp) : undefined;
       const payload = this.customConfig.buildPayload(rawBody, ts);
       return this.createHmac(payload, secret);
     }
-    return this.createHmac(rawBody.toString(), secret);
+    return this.createHmac(rawBody, secret);
   }
 }
@@ -0,0 +1,72 @@
+import { PublicKeyProvider } from './public-key.js';
+import { getHeader } from '../utils.js';
+import type { WebhookAutoResponse, WebhookRequestContext } from '../types.js';
+
+const INTERACTION_TYPES: Record<number, string> = {
+  1: 'PING',
+  2: 'APPLICATION_COMMAND',
+  3: 'MESSAGE_COMPONENT',
+  4: 'APPLICATION_COMMAND_AUTOCOMPLETE',
+  5: 'MODAL_SUBMIT',
+};
+
+/**
+ * Discord interactions provider
+ * Signature: hex Ed25519 signature of timestamp + body
+ * Secret: application public key (hex)
+ */
+export class DiscordProvider extends PublicKeyProvider {
+  constructor() {
+    super({
+      name: 'discord',
+      signatureHeader: 'x-signature-ed25519',
+      timestampHeader: 'x-signature-timestamp',
+      algorithm: 'ed25519',
+      signatureEncoding: 'hex',
+    });
+  }
+
+  /**
+   * Extract signature from X-Signature-Ed25519 header
+   * Format: raw hex signature
+   */
+  extractSignature(headerValue: string): string {
+    return headerValue;
+  }
+
+  /**
+   * Build Discord signed message
+   * Payload: X-Signature-Timestamp header value followed by the body
+   */
+  buildSignedPayload(rawBody: Buffer, _timestamp?: Date, context?: WebhookRequestContext): Buffer {
+    const ts = context ? getHeader(context.headers, 'x-signature-timestamp') : undefined;
+    if (!ts) {
+      throw new Error('Timestamp is required for Discord webhook verification');
+    }
+    return Buffer.concat([Buffer.from(ts), rawBody]);
+  }
+
+  /**
+   * Extract interaction type name from Discord body
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    return typeof body.type === 'number' ? INTERACTION_TYPES[body.type] : undefined;
+  }
+
+  /**
+   * Answer PING interactions with a PONG
+   */
+  override getAutoResponse(body: unknown): WebhookAutoResponse | undefined {
+    if (isPing(body)) {
+      return { body: { type: 1 } };
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Check whether an interaction body is a PING (type 1)
+ */
+function isPing(body: unknown): boolean {
+  return typeof body === 'object' && body !== null && (body as { type?: unknown }).type === 1;
+}
@@ -1,27 +1,63 @@
+import { createHmac } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
 import { BaseProvider } from './base.js';
+import { getHeader, getSecretKey } from '../utils.js';
+import type {
+  GitHubProviderOptions,
+  WebhookAutoResponse,
+  WebhookMetadata,
+  WebhookRequestContext,
+} from '../types.js';
+
+const SHA256_HEADER = 'x-hub-signature-256';
+const SHA1_HEADER = 'x-hub-signature';
+const EVENT_HEADER = 'x-github-event';
+
+/**
+ * Metadata keys and the headers they are read from
+ */
+const METADATA_HEADERS: Record<string, string> = {
+  event: EVENT_HEADER,
+  deliveryId: 'x-github-delivery',
+  hookId: 'x-github-hook-id',
+  installationTargetId: 'x-github-hook-installation-target-id',
+  installationTargetType: 'x-github-hook-installation-target-type',
+};
 
 /**
  * GitHub webhook provider
  * Signature format: sha256=signature
+ * (sha1=signature in X-Hub-Signature when allowSha1 is set, for older GitHub Enterprise Server)
  */
 export class GitHubProvider extends BaseProvider {
-  constructor() {
+  private readonly options: GitHubProviderOptions;
+
+  constructor(options: GitHubProviderOptions = {}) {
     super({
       name: 'github',
-      signatureHeader: 'x-hub-signature-256',
+      signatureHeader: SHA256_HEADER,
       timestampHeader: undefined,
       algorithm: 'sha256',
       signatureEncoding: 'hex',
     });
+    this.options = options;
+  }
+
+  /**
+   * Read X-Hub-Signature-256, falling back to X-Hub-Signature when allowed
+   */
+  override readSignatureHeader(headers: IncomingHttpHeaders): string | undefined {
+    return getHeader(headers, SHA256_HEADER) ?? this.readSha1Header(headers);
   }
 
   /**
    * Extract signature from X-Hub-Signature-256 header
-   * Format: sha256=signature
+   * Format: sha256=signature (or sha1=signature when allowed)
    */
   extractSignature(headerValue: string): string {
-    const prefix = 'sha256=';
-    if (headerValue.startsWith(prefix)) {
+    const prefixes = this.options.allowSha1 ? ['sha256=', 'sha1='] : ['sha256='];
+    const prefix = prefixes.find((candidate) => headerValue.startsWith(candidate));
+    if (prefix) {
       return headerValue.slice(prefix.length);
     }
     throw new Error('Invalid GitHub signature format');
@@ -29,16 +65,59 @@ export class GitHubProvider extends BaseProvider {
 
   /**
    * Compute GitHub signature
-   * Payload: raw body
+   * Payload: raw body (HMAC-SHA1 for requests signed with X-Hub-Signature only)
    */
-  computeSignature(rawBody: Buffer, secret: string, _timestamp?: Date): string {
-    return this.createHmac(rawBody.toString(), secret);
+  computeSignature(
+    rawBody: Buffer,
+    secret: string,
+    _timestamp?: Date,
+    context?: WebhookRequestContext
+  ): string {
+    if (context && this.options.allowSha1 && !getHeader(context.headers, SHA256_HEADER)) {
+      return createHmac('sha1', getSecretKey(secret)).update(rawBody).digest('hex');
+    }
+    return this.createHmac(rawBody, secret);
   }
 
   /**
    * GitHub event type is in header X-GitHub-Event, not body
+   * With includeAction, the body action is appended (e.g. pull_request.opened)
+   */
+  override extractEventType(
+    body: Record<string, unknown>,
+    context?: WebhookRequestContext
+  ): string | undefined {
+    const event = context ? getHeader(context.headers, EVENT_HEADER) : undefined;
+    if (event && this.options.includeAction && typeof body.action === 'string') {
+      return `${event}.${body.action}`;
+    }
+    return event;
+  }
+
+  /**
+   * Read delivery id, hook id and installation target headers
+   */
+  override extractMetadata(context: WebhookRequestContext): WebhookMetadata {
+    return this.readHeaderMetadata(context.headers, METADATA_HEADERS);
+  }
+
+  /**
+   * Answer ping events when answerPing is set
    */
-  override extractEventType(_body: Record<string, unknown>): string | undefined {
+  override getAutoResponse(
+    _body: unknown,
+    context: WebhookRequestContext
+  ): WebhookAutoResponse | undefined {
+    if (this.options.answerPing && getHeader(context.headers, EVENT_HEADER) === 'ping') {
+      return { body: { ok: true } };
+    }
     return undefined;
   }
+
+  /**
+   * Legacy SHA-1 signature header, only read when allowSha1 is set
+   */
+  private readSha1Header(headers: IncomingHttpHeaders): string | undefined {
+    return this.options.allowSha1 ? getHeader(headers, SHA1_HEADER) : undefined;
+  }
 }
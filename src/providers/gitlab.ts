@@ -0,0 +1,39 @@
+import { TokenProvider } from './token.js';
+import { getHeader } from '../utils.js';
+import type { WebhookRequestContext } from '../types.js';
+
+/**
+ * GitLab webhook provider
+ * GitLab does not sign payloads: X-Gitlab-Token carries the shared secret token
+ */
+export class GitLabProvider extends TokenProvider {
+  constructor() {
+    super({
+      name: 'gitlab',
+      signatureHeader: 'x-gitlab-token',
+      timestampHeader: undefined,
+    });
+  }
+
+  /**
+   * X-Gitlab-Event-UUID identifies a delivery and is used as replay nonce
+   */
+  override extractNonce(context: WebhookRequestContext): string | undefined {
+    return getHeader(context.headers, 'x-gitlab-event-uuid');
+  }
+
+  /**
+   * Extract event type from X-Gitlab-Event header (e.g. "Push Hook"),
+   * falling back to object_kind in the body
+   */
+  override extractEventType(
+    body: Record<string, unknown>,
+    context?: WebhookRequestContext
+  ): string | undefined {
+    const header = context ? getHeader(context.headers, 'x-gitlab-event') : undefined;
+    if (header) {
+      return header;
+    }
+    return typeof body.object_kind === 'string' ? body.object_kind : undefined;
+  }
+}
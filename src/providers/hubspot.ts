@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { BaseProvider } from './base.js';
+import { getHeader, timingSafeCompare } from '../utils.js';
+import type { HubSpotProviderOptions, WebhookRequestContext } from '../types.js';
+
+const V3_SIGNATURE_HEADER = 'x-hubspot-signature-v3';
+const LEGACY_SIGNATURE_HEADER = 'x-hubspot-signature';
+const VERSION_HEADER = 'x-hubspot-signature-version';
+const TIMESTAMP_HEADER = 'x-hubspot-request-timestamp';
+
+/**
+ * Percent-encoded characters HubSpot decodes in the URI before signing
+ */
+const DECODED_CHARACTERS: Record<string, string> = {
+  '%3A': ':',
+  '%2F': '/',
+  '%3F': '?',
+  '%40': '@',
+  '%21': '!',
+  '%24': '$',
+  '%27': "'",
+  '%28': '(',
+  '%29': ')',
+  '%2A': '*',
+  '%2C': ',',
+  '%3B': ';',
+};
+
+const ENCODED_PATTERN = /%(3A|2F|3F|40|21|24|27|28|29|2A|2C|3B)/gi;
+
+type SignatureVersion = 'v1' | 'v2' | 'v3';
+
+/**
+ * HubSpot webhook provider
+ * v3: base64 HMAC-SHA256 of method + decoded URI + body + timestamp (milliseconds)
+ * v1 / v2: hex SHA-256 of secret + body (v1) or secret + method + URI + body (v2),
+ * only accepted with allowLegacySignatures
+ */
+export class HubSpotProvider extends BaseProvider {
+  private readonly options: HubSpotProviderOptions;
+
+  constructor(options: HubSpotProviderOptions = {}) {
+    super({
+      name: 'hubspot',
+      signatureHeader: V3_SIGNATURE_HEADER,
+      timestampHeader: TIMESTAMP_HEADER,
+      timestampFormat: 'unix-ms',
+      algorithm: 'sha256',
+      signatureEncoding: 'base64',
+    });
+    this.options = options;
+  }
+
+  /**
+   * Read X-HubSpot-Signature-v3, falling back to the legacy header when allowed
+   */
+  override readSignatureHeader(headers: IncomingHttpHeaders): string | undefined {
+    const signature = getHeader(headers, V3_SIGNATURE_HEADER);
+    if (signature || !this.options.allowLegacySignatures) {
+      return signature;
+    }
+    return getHeader(headers, LEGACY_SIGNATURE_HEADER);
+  }
+
+  /**
+   * Signature header value is the raw signature
+   */
+  extractSignature(headerValue: string): string {
+    return headerValue;
+  }
+
+  /**
+   * Compute the HubSpot signature for the version sent with the request
+   */
+  computeSignature(
+    rawBody: Buffer,
+    secret: string,
+    timestamp?: Date,
+    context?: WebhookRequestContext
+  ): string {
+    if (!context) {
+      throw new Error('Request context is required for HubSpot webhook verification');
+    }
+
+    const version = this.getVersion(context.headers);
+    if (version === 'v1') {
+      return sha256Hex([secret, rawBody]);
+    }
+    if (version === 'v2') {
+      return sha256Hex([secret + context.method + context.url, rawBody]);
+    }
+
+    if (!timestamp) {
+      throw new Error('Timestamp is required for HubSpot v3 verification');
+    }
+    const ts = getHeader(context.headers, TIMESTAMP_HEADER) ?? this.formatTimestamp(timestamp);
+    return this.createHmac([context.method + decodeUri(context.url), rawBody, ts], secret);
+  }
+
+  /**
+   * Verify signatures; v3 signatures are base64 and legacy signatures hex
+   */
+  override verify(
+    signatures: string[],
+    rawBody: Buffer,
+    secret: string,
+    timestamp?: Date,
+    context?: WebhookRequestContext
+  ): boolean {
+    if (!context) {
+      throw new Error('Request context is required for HubSpot webhook verification');
+    }
+
+    const encoding = this.getVersion(context.headers) === 'v3' ? 'base64' : 'hex';
+    const expected = this.computeSignature(rawBody, secret, timestamp, context);
+    return signatures.some((signature) => timingSafeCompare(signature, expected, encoding));
+  }
+
+  /**
+   * Extract the subscription type shared by all events in the batch
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    const events: unknown[] = Array.isArray(body) ? body : [body];
+    const types = new Set(
+      events.map((event) =>
+        typeof event === 'object' && event !== null
+          ? (event as { subscriptionType?: unknown }).subscriptionType
+          : undefined
+      )
+    );
+    const [type] = types;
+    return types.size === 1 && typeof type === 'string' ? type : undefined;
+  }
+
+  /**
+   * Signature version used by the request
+   */
+  private getVersion(headers: IncomingHttpHeaders): SignatureVersion {
+    if (getHeader(headers, V3_SIGNATURE_HEADER) || !this.options.allowLegacySignatures) {
+      return 'v3';
+    }
+    return getHeader(headers, VERSION_HEADER) === 'v2' ? 'v2' : 'v1';
+  }
+}
+
+/**
+ * Decode the characters HubSpot decodes before signing
+ */
+function decodeUri(url: string): string {
+  return url.replace(ENCODED_PATTERN, (match) => DECODED_CHARACTERS[match.toUpperCase()] ?? match);
+}
+
+/**
+ * Hex SHA-256 digest of the parts, used by legacy signatures
+ */
+function sha256Hex(parts: (string | Buffer)[]): string {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(part);
+  }
+  return hash.digest('hex');
+}
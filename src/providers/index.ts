@@ -1,4 +1,9 @@
-import type { WebhookProvider, CustomProviderConfig } from '../types.js';
+import type {
+  WebhookProvider,
+  WebhookProviders,
+  CustomProviderConfig,
+  ProviderOptions,
+} from '../types.js';
 import { UnknownProviderError } from '../errors.js';
 import { BaseProvider } from './base.js';
 import { StripeProvider } from './stripe.js';
@@ -6,24 +11,127 @@ import { GitHubProvider } from './github.js';
 import { SlackProvider } from './slack.js';
 import { ShopifyProvider } from './shopify.js';
 import { TwilioProvider } from './twilio.js';
+import { StandardWebhooksProvider } from './standard-webhooks.js';
+import { DiscordProvider } from './discord.js';
+import { SendGridProvider } from './sendgrid.js';
+import { PaddleProvider } from './paddle.js';
+import { LinearProvider } from './linear.js';
+import { GitLabProvider } from './gitlab.js';
+import { MetaProvider } from './meta.js';
+import { TwitchProvider } from './twitch.js';
+import { ZoomProvider } from './zoom.js';
+import { SnsProvider } from './sns.js';
+import { JwtProvider } from './jwt.js';
+import { HubSpotProvider } from './hubspot.js';
+import { MailgunProvider } from './mailgun.js';
+import { SquareProvider } from './square.js';
 import { CustomProvider } from './custom.js';
 
-type ProviderConstructor = new () => BaseProvider;
+type ProviderFactory = (options: ProviderOptions) => BaseProvider;
 
-const providers: Record<string, ProviderConstructor> = {
-  stripe: StripeProvider,
-  github: GitHubProvider,
-  slack: SlackProvider,
-  shopify: ShopifyProvider,
-  twilio: TwilioProvider,
+/**
+ * Provider registered by name: a BaseProvider subclass, or a custom provider
+ * configuration (its name defaults to the registered name)
+ */
+export type ProviderDefinition =
+  | (new (options: ProviderOptions) => BaseProvider)
+  | (Omit<CustomProviderConfig, 'name'> & { name?: string });
+
+const providers: Record<string, ProviderFactory> = {
+  stripe: (options) => new StripeProvider(options.stripe),
+  github: (options) => new GitHubProvider(options.github),
+  slack: () => new SlackProvider(),
+  shopify: () => new ShopifyProvider(),
+  twilio: () => new TwilioProvider(),
+  'standard-webhooks': () => new StandardWebhooksProvider(),
+  discord: () => new DiscordProvider(),
+  sendgrid: () => new SendGridProvider(),
+  paddle: () => new PaddleProvider(),
+  linear: () => new LinearProvider(),
+  gitlab: () => new GitLabProvider(),
+  meta: () => new MetaProvider(),
+  twitch: () => new TwitchProvider(),
+  zoom: () => new ZoomProvider(),
+  sns: (options) => new SnsProvider(options.sns),
+  jwt: (options) => new JwtProvider(options.jwt),
+  hubspot: (options) => new HubSpotProvider(options.hubspot),
+  mailgun: () => new MailgunProvider(),
+  square: (options) => new SquareProvider(options.square),
 };
 
+/**
+ * Names allowed for registered providers (also used in env variable and file names)
+ */
+const PROVIDER_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Named providers of one plugin instance, exposed as fastify.webhookProviders
+ */
+export interface ProviderRegistry extends WebhookProviders {
+  /** Create a registered provider, undefined when the name is not registered */
+  create(name: string, options: ProviderOptions): BaseProvider | undefined;
+}
+
+/**
+ * Create a provider registry
+ * Built-in names, invalid names and names registered twice are refused
+ */
+export function createProviderRegistry(
+  definitions: Record<string, ProviderDefinition> = {}
+): ProviderRegistry {
+  const registered = new Map<string, ProviderFactory>();
+
+  const registry: ProviderRegistry = {
+    register(name: string, definition: ProviderDefinition): void {
+      if (name === 'custom' || Object.hasOwn(providers, name)) {
+        throw new Error(`Cannot register built-in provider: ${name}`);
+      }
+      if (!PROVIDER_NAME_PATTERN.test(name)) {
+        throw new Error(`Invalid provider name: ${name}`);
+      }
+      if (registered.has(name)) {
+        throw new Error(`Provider already registered: ${name}`);
+      }
+
+      if (typeof definition === 'function') {
+        registered.set(name, (options): BaseProvider => new definition(options));
+        return;
+      }
+
+      const config: CustomProviderConfig = { ...definition, name: definition.name ?? name };
+      // Fail on invalid configurations at registration rather than on the first request
+      new CustomProvider(config);
+      registered.set(name, (): BaseProvider => new CustomProvider(config));
+    },
+
+    has(name: string): boolean {
+      return name === 'custom' || Object.hasOwn(providers, name) || registered.has(name);
+    },
+
+    list(): string[] {
+      return [...registered.keys()];
+    },
+
+    create(name: string, options: ProviderOptions): BaseProvider | undefined {
+      return registered.get(name)?.(options);
+    },
+  };
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    registry.register(name, definition);
+  }
+  return registry;
+}
+
 /**
  * Get a provider instance by name
+ * Names not built in are looked up in the registry, when one is given
  */
 export function getProvider(
   name: WebhookProvider,
-  customConfig?: CustomProviderConfig
+  customConfig?: CustomProviderConfig,
+  options: ProviderOptions = {},
+  registry?: ProviderRegistry
 ): BaseProvider {
   if (name === 'custom') {
     if (!customConfig) {
@@ -32,18 +140,35 @@ export function getProvider(
     return new CustomProvider(customConfig);
   }
 
-  const ProviderClass = providers[name];
-  if (!ProviderClass) {
+  const createProvider = Object.hasOwn(providers, name) ? providers[name] : undefined;
+  const provider = createProvider ? createProvider(options) : registry?.create(name, options);
+  if (!provider) {
     throw new UnknownProviderError(name);
   }
 
-  return new ProviderClass();
+  return provider;
 }
 
 export { BaseProvider } from './base.js';
+export { PublicKeyProvider } from './public-key.js';
+export { TokenProvider } from './token.js';
 export { StripeProvider } from './stripe.js';
 export { GitHubProvider } from './github.js';
 export { SlackProvider } from './slack.js';
 export { ShopifyProvider } from './shopify.js';
 export { TwilioProvider } from './twilio.js';
+export { StandardWebhooksProvider } from './standard-webhooks.js';
+export { DiscordProvider } from './discord.js';
+export { SendGridProvider } from './sendgrid.js';
+export { PaddleProvider } from './paddle.js';
+export { LinearProvider } from './linear.js';
+export { GitLabProvider } from './gitlab.js';
+export { MetaProvider } from './meta.js';
+export { TwitchProvider } from './twitch.js';
+export { ZoomProvider } from './zoom.js';
+export { SnsProvider, parseSnsMessage } from './sns.js';
+export { JwtProvider } from './jwt.js';
+export { HubSpotProvider } from './hubspot.js';
+export { MailgunProvider } from './mailgun.js';
+export { SquareProvider } from './square.js';
 export { CustomProvider } from './custom.js';
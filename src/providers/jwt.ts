@@ -0,0 +1,390 @@
+import {
+  createPublicKey,
+  verify as verifySignature,
+  type JsonWebKey,
+  type KeyObject,
+} from 'crypto';
+import { BaseProvider } from './base.js';
+import { KeyUnavailableError, TimestampExpiredError } from '../errors.js';
+import { getBodyField } from '../utils.js';
+import type {
+  JsonWebKeySet,
+  JwtAlgorithm,
+  JwtProviderOptions,
+  WebhookRequestContext,
+} from '../types.js';
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+
+const DEFAULT_ALGORITHMS: JwtAlgorithm[] = ['RS256', 'ES256', 'EdDSA'];
+
+const DEFAULT_JWKS_CACHE_TTL = 3600;
+
+// Minimum delay between reloads triggered by unknown key ids
+const JWKS_RELOAD_INTERVAL = 60_000;
+
+// Downloads of key sets are aborted after this delay, so a slow host cannot hold requests
+const FETCH_TIMEOUT = 5000;
+
+// Key sets that failed to load are not retried for this delay
+const JWKS_RETRY_DELAY = 60_000;
+
+/**
+ * Key type (and curve) a JWK must have for each algorithm
+ */
+const KEY_TYPES: Record<JwtAlgorithm, { kty: string; crv?: string }> = {
+  RS256: { kty: 'RSA' },
+  ES256: { kty: 'EC', crv: 'P-256' },
+  EdDSA: { kty: 'OKP', crv: 'Ed25519' },
+};
+
+interface DecodedJwt {
+  header: Record<string, unknown>;
+  claims: Record<string, unknown>;
+  signedPayload: Buffer;
+  signature: Buffer;
+}
+
+interface CachedJwks {
+  jwks: JsonWebKeySet;
+  loadedAt: number;
+  expiresAt: number;
+}
+
+type JwksSource = string | (() => Promise<JsonWebKeySet>);
+
+// Key sets are cached per loader or URL and shared by all routes using it
+const jwksCache = new Map<JwksSource, CachedJwks>();
+
+// Loads in progress, shared by concurrent requests
+const jwksLoads = new Map<JwksSource, Promise<JsonWebKeySet>>();
+
+// Time of the last failed load of each loader or URL
+const jwksFailures = new Map<JwksSource, number>();
+
+// Keys imported from the JWKs of cached key sets, released with them (null for invalid JWKs)
+const jwkKeys = new WeakMap<JsonWebKey, KeyObject | null>();
+
+/**
+ * Download a key set with an HTTPS GET
+ */
+async function fetchJwks(uri: string): Promise<JsonWebKeySet> {
+  const response = await fetch(uri, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+  if (!response.ok) {
+    throw new Error(`Request to ${uri} failed with status ${String(response.status)}`);
+  }
+  return (await response.json()) as JsonWebKeySet;
+}
+
+/**
+ * JWT / OIDC bearer token provider (Google Pub/Sub push, Azure Event Grid, ...)
+ * Header: Authorization: Bearer <jwt>
+ * Signature: RS256, ES256 or EdDSA, checked against a JSON Web Key Set. No secret is needed.
+ */
+export class JwtProvider extends BaseProvider {
+  override readonly requiresSecret = false;
+
+  private readonly options: JwtProviderOptions;
+
+  constructor(options: JwtProviderOptions = {}) {
+    super({
+      name: 'jwt',
+      signatureHeader: 'authorization',
+      timestampHeader: undefined,
+      algorithm: 'jwt',
+      signatureEncoding: 'base64',
+    });
+    if (!options.jwks && !options.jwksUri && !options.loadJwks) {
+      throw new Error('jwt provider requires jwks, jwksUri or loadJwks');
+    }
+    // Identity providers sign tokens for any audience, so the audience must be checked
+    if (options.audience === undefined || options.audience.length === 0) {
+      throw new Error('jwt provider requires audience');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Extract the token from the Authorization header
+   * Format: Bearer <jwt>
+   */
+  extractSignature(headerValue: string): string {
+    const token = BEARER_PATTERN.exec(headerValue)?.[1];
+    if (!token) {
+      throw new Error('Invalid Authorization header format');
+    }
+    return token;
+  }
+
+  /**
+   * JWT signatures cannot be computed from the public keys
+   */
+  computeSignature(_rawBody: Buffer, _secret: string, _timestamp?: Date): string {
+    throw new Error('jwt uses public-key signatures; use verify() instead');
+  }
+
+  /**
+   * Verify the token signature against the key set, then its claims
+   * Expired or not yet valid tokens throw TimestampExpiredError
+   */
+  override async verify(
+    signatures: string[],
+    _rawBody: Buffer,
+    _secret: string,
+    _timestamp?: Date,
+    _context?: WebhookRequestContext
+  ): Promise<boolean> {
+    const [token] = signatures;
+    const decoded = token ? decodeJwt(token) : undefined;
+    if (!decoded) {
+      return false;
+    }
+
+    const algorithm = decoded.header.alg;
+    const algorithms = this.options.algorithms ?? DEFAULT_ALGORITHMS;
+    if (!algorithms.includes(algorithm as JwtAlgorithm)) {
+      return false;
+    }
+
+    const kid = typeof decoded.header.kid === 'string' ? decoded.header.kid : undefined;
+    const keys = await this.getKeys(algorithm as JwtAlgorithm, kid);
+    const valid = keys.some((key) => verifyJwtSignature(algorithm as JwtAlgorithm, key, decoded));
+    if (!valid) {
+      return false;
+    }
+
+    this.checkTimeClaims(decoded.claims);
+    return this.checkClaims(decoded.claims);
+  }
+
+  /**
+   * The jti claim is used as replay nonce when jtiNonce is set
+   * (a jti identifies a token, which senders may reuse for several deliveries)
+   */
+  override extractNonce(context: WebhookRequestContext): string | undefined {
+    if (!this.options.jtiNonce) {
+      return undefined;
+    }
+    const jti = this.decodeContext(context)?.claims.jti;
+    return typeof jti === 'string' ? jti : undefined;
+  }
+
+  /**
+   * Expose the decoded token claims
+   */
+  override extractClaims(context: WebhookRequestContext): Record<string, unknown> | undefined {
+    return this.decodeContext(context)?.claims;
+  }
+
+  /**
+   * Extract event type from the body (CloudEvents `type` or Event Grid `eventType`)
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    const type = getBodyField(body, 'type') ?? getBodyField(body, 'eventType');
+    return typeof type === 'string' ? type : undefined;
+  }
+
+  /**
+   * Decode the token sent with a request
+   */
+  private decodeContext(context: WebhookRequestContext): DecodedJwt | undefined {
+    const headerValue = this.readSignature(context);
+    if (!headerValue) {
+      return undefined;
+    }
+    try {
+      return decodeJwt(this.extractSignature(headerValue));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reject tokens outside their exp / nbf validity window
+   */
+  private checkTimeClaims(claims: Record<string, unknown>): void {
+    const tolerance = this.options.clockTolerance ?? 0;
+    const now = Date.now() / 1000;
+
+    if (typeof claims.exp !== 'number' || now > claims.exp + tolerance) {
+      const exp = typeof claims.exp === 'number' ? claims.exp : 0;
+      throw new TimestampExpiredError(this.name, new Date(exp * 1000), tolerance);
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf - tolerance) {
+      throw new TimestampExpiredError(this.name, new Date(claims.nbf * 1000), tolerance);
+    }
+  }
+
+  /**
+   * Check iss, aud and email against the configured values
+   */
+  private checkClaims(claims: Record<string, unknown>): boolean {
+    const { issuer, audience = [], email } = this.options;
+
+    if (issuer !== undefined && !matches(claims.iss, issuer)) {
+      return false;
+    }
+    const aud = Array.isArray(claims.aud) ? (claims.aud as unknown[]) : [claims.aud];
+    if (!aud.some((value) => matches(value, audience))) {
+      return false;
+    }
+    if (email !== undefined) {
+      if (!matches(claims.email, email) || claims.email_verified === false) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Keys usable for an algorithm, optionally restricted to a key id
+   * An unknown key id reloads the key set once, as the sender may have rotated keys
+   */
+  private async getKeys(algorithm: JwtAlgorithm, kid: string | undefined): Promise<JsonWebKey[]> {
+    const select = (jwks: JsonWebKeySet): JsonWebKey[] =>
+      jwks.keys.filter(
+        (key) =>
+          (kid === undefined || key.kid === kid) &&
+          (key.alg === undefined || key.alg === algorithm) &&
+          key.kty === KEY_TYPES[algorithm].kty &&
+          key.crv === KEY_TYPES[algorithm].crv
+      );
+
+    const keys = select(await this.loadJwks(false));
+    if (keys.length > 0 || kid === undefined || this.options.jwks) {
+      return keys;
+    }
+    return select(await this.loadJwks(true));
+  }
+
+  /**
+   * Get the configured key set, from the cache when possible
+   * Concurrent loads are shared; failed loads throw KeyUnavailableError (retryable) and are
+   * not retried for JWKS_RETRY_DELAY
+   */
+  private async loadJwks(reload: boolean): Promise<JsonWebKeySet> {
+    const { jwks, jwksUri, loadJwks } = this.options;
+    if (jwks) {
+      return jwks;
+    }
+
+    const cacheKey = loadJwks ?? jwksUri;
+    if (!cacheKey) {
+      throw new Error('jwt provider requires jwks, jwksUri or loadJwks');
+    }
+
+    const now = Date.now();
+    const cached = jwksCache.get(cacheKey);
+    if (cached && cached.expiresAt > now) {
+      if (!reload || now - cached.loadedAt < JWKS_RELOAD_INTERVAL) {
+        return cached.jwks;
+      }
+    }
+
+    const failedAt = jwksFailures.get(cacheKey);
+    if (failedAt !== undefined && now - failedAt < JWKS_RETRY_DELAY) {
+      throw new KeyUnavailableError(this.name);
+    }
+
+    let loading = jwksLoads.get(cacheKey);
+    if (!loading) {
+      const ttl = this.options.jwksCacheTtl ?? DEFAULT_JWKS_CACHE_TTL;
+      loading = (loadJwks ? loadJwks() : fetchJwks(cacheKey as string))
+        .then(
+          (loaded) => {
+            const loadedAt = Date.now();
+            jwksFailures.delete(cacheKey);
+            jwksCache.set(cacheKey, { jwks: loaded, loadedAt, expiresAt: loadedAt + ttl * 1000 });
+            return loaded;
+          },
+          () => {
+            jwksFailures.set(cacheKey, Date.now());
+            throw new KeyUnavailableError(this.name);
+          }
+        )
+        .finally(() => {
+          jwksLoads.delete(cacheKey);
+        });
+      jwksLoads.set(cacheKey, loading);
+    }
+    return loading;
+  }
+}
+
+/**
+ * Split and decode a compact JWS token
+ */
+function decodeJwt(token: string): DecodedJwt | undefined {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return undefined;
+  }
+  const [header = '', payload = '', signature = ''] = parts;
+  try {
+    const decodedHeader: unknown = JSON.parse(Buffer.from(header, 'base64url').toString());
+    const claims: unknown = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (!isRecord(decodedHeader) || !isRecord(claims)) {
+      return undefined;
+    }
+    return {
+      header: decodedHeader,
+      claims,
+      signedPayload: Buffer.from(`${header}.${payload}`),
+      signature: Buffer.from(signature, 'base64url'),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Verify a token signature with a single key
+ */
+function verifyJwtSignature(algorithm: JwtAlgorithm, jwk: JsonWebKey, token: DecodedJwt): boolean {
+  const key = getJwkKey(jwk);
+  if (!key) {
+    return false;
+  }
+  try {
+    if (algorithm === 'EdDSA') {
+      return verifySignature(null, token.signedPayload, key, token.signature);
+    }
+    // JWS ECDSA signatures are raw r || s, not DER
+    const keyInput = algorithm === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' as const } : key;
+    return verifySignature('sha256', token.signedPayload, keyInput, token.signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Public key of a JWK, imported once
+ */
+function getJwkKey(jwk: JsonWebKey): KeyObject | null {
+  let key = jwkKeys.get(jwk);
+  if (key === undefined) {
+    try {
+      key = createPublicKey({ key: jwk, format: 'jwk' });
+    } catch {
+      key = null;
+    }
+    jwkKeys.set(jwk, key);
+  }
+  return key;
+}
+
+/**
+ * Check a claim value against one or more accepted values
+ */
+function matches(value: unknown, accepted: string | string[]): boolean {
+  return (
+    typeof value === 'string' && (Array.isArray(accepted) ? accepted : [accepted]).includes(value)
+  );
+}
+
+/**
+ * Check that a decoded JSON value is an object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
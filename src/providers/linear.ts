@@ -0,0 +1,52 @@
+import { BaseProvider } from './base.js';
+import { getHeader } from '../utils.js';
+import type { WebhookRequestContext } from '../types.js';
+
+/**
+ * Linear webhook provider
+ * Signature: hex HMAC-SHA256 of the raw body
+ * Timestamp: webhookTimestamp body field (unix milliseconds)
+ */
+export class LinearProvider extends BaseProvider {
+  constructor() {
+    super({
+      name: 'linear',
+      signatureHeader: 'linear-signature',
+      timestampHeader: undefined,
+      timestampField: 'webhookTimestamp',
+      timestampFormat: 'unix-ms',
+      algorithm: 'sha256',
+      signatureEncoding: 'hex',
+    });
+  }
+
+  /**
+   * Extract signature from Linear-Signature header
+   * Format: raw hex signature
+   */
+  extractSignature(headerValue: string): string {
+    return headerValue;
+  }
+
+  /**
+   * Linear-Delivery identifies a delivery and is used as replay nonce
+   */
+  override extractNonce(context: WebhookRequestContext): string | undefined {
+    return getHeader(context.headers, 'linear-delivery');
+  }
+
+  /**
+   * Compute Linear signature
+   * Payload: raw body
+   */
+  computeSignature(rawBody: Buffer, secret: string, _timestamp?: Date): string {
+    return this.createHmac(rawBody, secret);
+  }
+
+  /**
+   * Extract entity type (e.g. Issue, Comment) from Linear webhook body
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    return typeof body.type === 'string' ? body.type : undefined;
+  }
+}
@@ -0,0 +1,102 @@
+import { BaseProvider } from './base.js';
+import { getBodyField } from '../utils.js';
+import type { WebhookRequestContext } from '../types.js';
+
+interface MailgunSignature {
+  timestamp: string | undefined;
+  token: string | undefined;
+  signature: string | undefined;
+}
+
+/**
+ * Mailgun webhook provider
+ * Signature: hex HMAC-SHA256 of timestamp + token with the webhook signing key.
+ * No headers: timestamp, token and signature are read from the `signature` object of
+ * JSON webhooks or from the top-level fields of form posts (routes, legacy webhooks)
+ */
+export class MailgunProvider extends BaseProvider {
+  override readonly postsFormBody = true;
+
+  constructor() {
+    super({
+      name: 'mailgun',
+      signatureHeader: undefined,
+      timestampHeader: undefined,
+      algorithm: 'sha256',
+      signatureEncoding: 'hex',
+    });
+  }
+
+  /**
+   * Read the signature from the body
+   */
+  override readSignature(context: WebhookRequestContext): string | undefined {
+    return readSignatureFields(context.body).signature;
+  }
+
+  /**
+   * Signature value is the raw hex signature
+   */
+  extractSignature(value: string): string {
+    return value;
+  }
+
+  /**
+   * Read the timestamp (unix seconds) from the body
+   */
+  override extractTimestamp(
+    context: WebhookRequestContext,
+    _signatureHeader: string
+  ): Date | undefined {
+    const { timestamp } = readSignatureFields(context.body);
+    return timestamp ? this.parseTimestamp(timestamp) : undefined;
+  }
+
+  /**
+   * The token is unique per delivery and is used as replay nonce
+   */
+  override extractNonce(context: WebhookRequestContext): string | undefined {
+    return readSignatureFields(context.body).token;
+  }
+
+  /**
+   * Compute Mailgun signature
+   * Payload: timestamp + token, as sent in the body
+   */
+  computeSignature(
+    _rawBody: Buffer,
+    secret: string,
+    _timestamp?: Date,
+    context?: WebhookRequestContext
+  ): string {
+    const { timestamp, token } = readSignatureFields(context?.body);
+    if (!timestamp || !token) {
+      throw new Error('Timestamp and token are required for Mailgun verification');
+    }
+    return this.createHmac(timestamp + token, secret);
+  }
+
+  /**
+   * Extract the event from event-data (JSON) or the event field (form posts)
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    const event = getBodyField(getBodyField(body, 'event-data'), 'event') ?? body.event;
+    return typeof event === 'string' ? event : undefined;
+  }
+}
+
+/**
+ * Read timestamp, token and signature from a JSON or form body
+ */
+function readSignatureFields(body: unknown): MailgunSignature {
+  const nested = getBodyField(body, 'signature');
+  const source = typeof nested === 'object' && nested !== null ? nested : body;
+  const read = (field: string): string | undefined => {
+    const value = getBodyField(source, field);
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+  return { timestamp: read('timestamp'), token: read('token'), signature: read('signature') };
+}
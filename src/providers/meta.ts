@@ -0,0 +1,72 @@
+import { BaseProvider } from './base.js';
+import { timingSafeTokenCompare } from '../utils.js';
+import type { WebhookAutoResponse } from '../types.js';
+
+/**
+ * Meta webhook provider (Facebook, Instagram, WhatsApp Business)
+ * Signature format: sha256=signature (HMAC-SHA256 with the app secret)
+ * Subscription handshake: GET with hub.mode, hub.verify_token and hub.challenge
+ */
+export class MetaProvider extends BaseProvider {
+  override readonly supportsHandshake = true;
+
+  constructor() {
+    super({
+      name: 'meta',
+      signatureHeader: 'x-hub-signature-256',
+      timestampHeader: undefined,
+      algorithm: 'sha256',
+      signatureEncoding: 'hex',
+    });
+  }
+
+  /**
+   * Extract signature from X-Hub-Signature-256 header
+   * Format: sha256=signature
+   */
+  extractSignature(headerValue: string): string {
+    const prefix = 'sha256=';
+    if (headerValue.startsWith(prefix)) {
+      return headerValue.slice(prefix.length);
+    }
+    throw new Error('Invalid Meta signature format');
+  }
+
+  /**
+   * Compute Meta signature
+   * Payload: raw body
+   */
+  computeSignature(rawBody: Buffer, secret: string, _timestamp?: Date): string {
+    return this.createHmac(rawBody, secret);
+  }
+
+  /**
+   * Extract subscribed object (e.g. page, whatsapp_business_account) from Meta body
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    return typeof body.object === 'string' ? body.object : undefined;
+  }
+
+  /**
+   * Echo hub.challenge when hub.mode is subscribe and hub.verify_token matches
+   */
+  override answerHandshake(
+    query: Record<string, unknown>,
+    verifyToken: string
+  ): WebhookAutoResponse | undefined {
+    const mode = query['hub.mode'];
+    const token = query['hub.verify_token'];
+    const challenge = query['hub.challenge'];
+
+    if (
+      mode !== 'subscribe' ||
+      typeof token !== 'string' ||
+      typeof challenge !== 'string' ||
+      !timingSafeTokenCompare(token, verifyToken)
+    ) {
+      return undefined;
+    }
+
+    return { contentType: 'text/plain', body: challenge };
+  }
+}
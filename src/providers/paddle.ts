@@ -0,0 +1,101 @@
+import { BaseProvider } from './base.js';
+import type { WebhookRequestContext } from '../types.js';
+
+/**
+ * Paddle Billing webhook provider
+ * Signature format: ts=timestamp;h1=signature (several h1 during secret rotation)
+ */
+export class PaddleProvider extends BaseProvider {
+  constructor() {
+    super({
+      name: 'paddle',
+      signatureHeader: 'paddle-signature',
+      timestampHeader: undefined,
+      algorithm: 'sha256',
+      signatureEncoding: 'hex',
+    });
+  }
+
+  /**
+   * Extract first h1 signature from Paddle-Signature header
+   * Format: ts=timestamp;h1=signature
+   */
+  extractSignature(headerValue: string): string {
+    const [signature] = this.extractSignatures(headerValue);
+    if (!signature) {
+      throw new Error('No h1 signature found in Paddle-Signature header');
+    }
+    return signature;
+  }
+
+  /**
+   * Extract every h1 signature from Paddle-Signature header
+   */
+  override extractSignatures(headerValue: string): string[] {
+    const signatures: string[] = [];
+    for (const part of headerValue.split(';')) {
+      const [key, value] = part.split('=');
+      if (key === 'h1' && value) {
+        signatures.push(value);
+      }
+    }
+    if (signatures.length === 0) {
+      throw new Error('No h1 signature found in Paddle-Signature header');
+    }
+    return signatures;
+  }
+
+  /**
+   * Parse timestamp from Paddle-Signature header
+   */
+  override parseTimestamp(headerValue: string): Date {
+    const timestamp = this.readTimestamp(headerValue);
+    if (!timestamp) {
+      throw new Error('No timestamp found in Paddle-Signature header');
+    }
+    return timestamp;
+  }
+
+  /**
+   * Paddle has the timestamp in the signature header
+   * Headers without a timestamp fail verification as invalid signatures
+   */
+  override extractTimestamp(
+    _context: WebhookRequestContext,
+    signatureHeader: string
+  ): Date | undefined {
+    return this.readTimestamp(signatureHeader);
+  }
+
+  /**
+   * Compute Paddle signature
+   * Payload: timestamp:body
+   */
+  computeSignature(rawBody: Buffer, secret: string, timestamp?: Date): string {
+    if (!timestamp) {
+      throw new Error('Timestamp is required for Paddle webhook verification');
+    }
+    const ts = String(Math.floor(timestamp.getTime() / 1000));
+    return this.createHmac([`${ts}:`, rawBody], secret);
+  }
+
+  /**
+   * Extract event type from Paddle webhook body
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    return typeof body.event_type === 'string' ? body.event_type : undefined;
+  }
+
+  /**
+   * Timestamp (ts=) of a Paddle-Signature header
+   */
+  private readTimestamp(headerValue: string): Date | undefined {
+    for (const part of headerValue.split(';')) {
+      const [key, value] = part.split('=');
+      if (key === 'ts' && value) {
+        return new Date(parseInt(value, 10) * 1000);
+      }
+    }
+    return undefined;
+  }
+}
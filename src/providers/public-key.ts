@@ -0,0 +1,55 @@
+import { verify as verifySignature } from 'crypto';
+import { BaseProvider } from './base.js';
+import { getPublicKey } from '../utils.js';
+import type { WebhookRequestContext } from '../types.js';
+
+/**
+ * Base class for providers signing with a private key
+ * The configured secret is the sender's public key (PEM, base64 DER or raw hex Ed25519)
+ */
+export abstract class PublicKeyProvider extends BaseProvider {
+  /**
+   * Build the signed message
+   */
+  abstract buildSignedPayload(
+    rawBody: Buffer,
+    timestamp?: Date,
+    context?: WebhookRequestContext
+  ): Buffer;
+
+  /**
+   * Public-key signatures cannot be computed from the public key
+   */
+  computeSignature(_rawBody: Buffer, _secret: string, _timestamp?: Date): string {
+    throw new Error(`${this.name} uses public-key signatures; use verify() instead`);
+  }
+
+  /**
+   * Verify signatures against the sender's public key
+   */
+  override verify(
+    signatures: string[],
+    rawBody: Buffer,
+    publicKey: string,
+    timestamp?: Date,
+    context?: WebhookRequestContext
+  ): boolean {
+    const key = getPublicKey(publicKey);
+    const payload = this.buildSignedPayload(rawBody, timestamp, context);
+    // Ed25519 hashes internally; ECDSA signatures are DER-encoded over SHA-256
+    const digest = this.config.algorithm === 'ed25519' ? null : 'sha256';
+
+    return signatures.some((signature) => {
+      try {
+        return verifySignature(
+          digest,
+          payload,
+          key,
+          Buffer.from(signature, this.config.signatureEncoding)
+        );
+      } catch {
+        return false;
+      }
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { PublicKeyProvider } from './public-key.js';
+import { getHeader } from '../utils.js';
+import type { WebhookRequestContext } from '../types.js';
+
+/**
+ * SendGrid Event Webhook provider
+ * Signature: base64 ECDSA (P-256, SHA-256) signature of timestamp + body
+ * Secret: verification public key (base64 DER or PEM)
+ */
+export class SendGridProvider extends PublicKeyProvider {
+  constructor() {
+    super({
+      name: 'sendgrid',
+      signatureHeader: 'x-twilio-email-event-webhook-signature',
+      timestampHeader: 'x-twilio-email-event-webhook-timestamp',
+      algorithm: 'ecdsa-sha256',
+      signatureEncoding: 'base64',
+    });
+  }
+
+  /**
+   * Extract signature from X-Twilio-Email-Event-Webhook-Signature header
+   * Format: raw base64 DER signature
+   */
+  extractSignature(headerValue: string): string {
+    return headerValue;
+  }
+
+  /**
+   * Build SendGrid signed message
+   * Payload: timestamp header value followed by the body
+   */
+  buildSignedPayload(rawBody: Buffer, _timestamp?: Date, context?: WebhookRequestContext): Buffer {
+    const ts = context
+      ? getHeader(context.headers, 'x-twilio-email-event-webhook-timestamp')
+      : undefined;
+    if (!ts) {
+      throw new Error('Timestamp is required for SendGrid webhook verification');
+    }
+    return Buffer.concat([Buffer.from(ts), rawBody]);
+  }
+
+  /**
+   * SendGrid posts a batch of events; report the type when all events share it
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    if (!Array.isArray(body)) {
+      return undefined;
+    }
+    const types = new Set(
+      (body as unknown[]).map((event) =>
+        typeof event === 'object' && event !== null
+          ? (event as { event?: unknown }).event
+          : undefined
+      )
+    );
+    const [type] = types;
+    return types.size === 1 && typeof type === 'string' ? type : undefined;
+  }
+}
@@ -1,8 +1,31 @@
+import { createHmac } from 'crypto';
 import { BaseProvider } from './base.js';
+import { getHeader, getSecretKey, timingSafeCompare } from '../utils.js';
+import type { ShopifyQueryMode, WebhookMetadata, WebhookRequestContext } from '../types.js';
+
+/**
+ * Query parameter holding the signature for each mode
+ */
+const QUERY_SIGNATURE_PARAMS: Record<ShopifyQueryMode, string> = {
+  oauth: 'hmac',
+  'app-proxy': 'signature',
+};
+
+/**
+ * Metadata keys and the headers they are read from
+ */
+const METADATA_HEADERS: Record<string, string> = {
+  topic: 'x-shopify-topic',
+  shopDomain: 'x-shopify-shop-domain',
+  webhookId: 'x-shopify-webhook-id',
+  apiVersion: 'x-shopify-api-version',
+  triggeredAt: 'x-shopify-triggered-at',
+};
 
 /**
  * Shopify webhook provider
  * Signature: base64-encoded HMAC-SHA256
+ * Also verifies the hex HMAC-SHA256 query signatures of OAuth callbacks and app proxy requests
  */
 export class ShopifyProvider extends BaseProvider {
   constructor() {
@@ -28,13 +51,85 @@ export class ShopifyProvider extends BaseProvider {
    * Payload: raw body
    */
   computeSignature(rawBody: Buffer, secret: string, _timestamp?: Date): string {
-    return this.createHmac(rawBody.toString(), secret);
+    return this.createHmac(rawBody, secret);
+  }
+
+  /**
+   * Read the query signature for a mode (hmac or signature parameter)
+   */
+  readQuerySignature(params: URLSearchParams, mode: ShopifyQueryMode): string | undefined {
+    return params.get(QUERY_SIGNATURE_PARAMS[mode]) ?? undefined;
+  }
+
+  /**
+   * Build the signed message of a query string
+   * OAuth: sorted key=value pairs joined with &, repeated values as ["a", "b"]
+   * App proxy: sorted key=value pairs without separator, repeated values joined with ,
+   */
+  buildQueryMessage(params: URLSearchParams, mode: ShopifyQueryMode): string {
+    const values = new Map<string, string[]>();
+    const arrays = new Set<string>();
+    for (const [key, value] of params) {
+      if (key === 'hmac' || key === 'signature') {
+        continue;
+      }
+      const name = mode === 'oauth' ? key.replace(/\[\]$/, '') : key;
+      if (name !== key) {
+        arrays.add(name);
+      }
+      values.set(name, [...(values.get(name) ?? []), value]);
+    }
+
+    const pairs = [...values.entries()].map(([key, list]) => {
+      if (mode === 'app-proxy') {
+        return `${key}=${list.join(',')}`;
+      }
+      const value =
+        list.length > 1 || arrays.has(key)
+          ? `[${list.map((item) => `"${item}"`).join(', ')}]`
+          : list.join('');
+      return `${escapeQueryPart(key, true)}=${escapeQueryPart(value, false)}`;
+    });
+
+    return pairs.sort().join(mode === 'oauth' ? '&' : '');
+  }
+
+  /**
+   * Verify the query signature of an OAuth callback or app proxy request
+   */
+  verifyQuery(params: URLSearchParams, secret: string, mode: ShopifyQueryMode): boolean {
+    const signature = this.readQuerySignature(params, mode);
+    if (!signature) {
+      return false;
+    }
+    const expected = createHmac('sha256', getSecretKey(secret))
+      .update(this.buildQueryMessage(params, mode))
+      .digest('hex');
+    return timingSafeCompare(signature, expected, 'hex');
   }
 
   /**
    * Shopify topic is in header X-Shopify-Topic, not body
    */
-  override extractEventType(_body: Record<string, unknown>): string | undefined {
-    return undefined;
+  override extractEventType(
+    _body: Record<string, unknown>,
+    context?: WebhookRequestContext
+  ): string | undefined {
+    return context ? getHeader(context.headers, 'x-shopify-topic') : undefined;
+  }
+
+  /**
+   * Read topic, shop domain, webhook id, API version and trigger time headers
+   */
+  override extractMetadata(context: WebhookRequestContext): WebhookMetadata {
+    return this.readHeaderMetadata(context.headers, METADATA_HEADERS);
   }
 }
+
+/**
+ * Escape the characters Shopify escapes in signed OAuth parameters
+ */
+function escapeQueryPart(value: string, isKey: boolean): string {
+  const escaped = value.replace(/%/g, '%25').replace(/&/g, '%26');
+  return isKey ? escaped.replace(/=/g, '%3D') : escaped;
+}
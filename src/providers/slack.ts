@@ -1,11 +1,23 @@
 import { BaseProvider } from './base.js';
+import type { WebhookAutoResponse, WebhookMetadata, WebhookRequestContext } from '../types.js';
+
+/**
+ * Metadata keys and the headers they are read from
+ */
+const METADATA_HEADERS: Record<string, string> = {
+  retryNum: 'x-slack-retry-num',
+  retryReason: 'x-slack-retry-reason',
+};
 
 /**
  * Slack webhook provider
  * Signature format: v0=signature
  * Separate timestamp header
+ * Handles Events API JSON bodies, slash commands and interactive payloads (form posts)
  */
 export class SlackProvider extends BaseProvider {
+  override readonly postsFormBody = true;
+
   constructor() {
     super({
       name: 'slack',
@@ -37,14 +49,67 @@ export class SlackProvider extends BaseProvider {
       throw new Error('Timestamp is required for Slack webhook verification');
     }
     const ts = String(Math.floor(timestamp.getTime() / 1000));
-    const payload = `v0:${ts}:${rawBody.toString()}`;
-    return this.createHmac(payload, secret);
+    return this.createHmac([`v0:${ts}:`, rawBody], secret);
   }
 
   /**
    * Extract event type from Slack webhook body
+   * Slash commands: command (e.g. /deploy)
+   * Interactive payloads: callback_id (or view.callback_id), falling back to the payload type
+   * Events API: type
    */
   override extractEventType(body: Record<string, unknown>): string | undefined {
+    if (typeof body.command === 'string') {
+      return body.command;
+    }
+    const payload = this.extractPayload(body);
+    if (payload) {
+      const view = payload.view as { callback_id?: unknown } | undefined;
+      const type = payload.callback_id ?? view?.callback_id ?? payload.type;
+      return typeof type === 'string' && type !== '' ? type : undefined;
+    }
     return typeof body.type === 'string' ? body.type : undefined;
   }
+
+  /**
+   * Decode the JSON payload field of interactive requests
+   */
+  override extractPayload(body: unknown): Record<string, unknown> | undefined {
+    if (typeof body !== 'object' || body === null) {
+      return undefined;
+    }
+    const { payload } = body as { payload?: unknown };
+    if (typeof payload !== 'string') {
+      return undefined;
+    }
+    try {
+      const decoded: unknown = JSON.parse(payload);
+      return typeof decoded === 'object' && decoded !== null
+        ? (decoded as Record<string, unknown>)
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the retry headers, so handlers can skip redelivered events
+   */
+  override extractMetadata(context: WebhookRequestContext): WebhookMetadata {
+    return this.readHeaderMetadata(context.headers, METADATA_HEADERS);
+  }
+
+  /**
+   * Answer url_verification challenges
+   */
+  override getAutoResponse(body: unknown): WebhookAutoResponse | undefined {
+    if (typeof body !== 'object' || body === null) {
+      return undefined;
+    }
+    const { type, challenge } = body as { type?: unknown; challenge?: unknown };
+    if (type === 'url_verification' && typeof challenge === 'string') {
+      return { contentType: 'text/plain', body: challenge };
+    }
+    return undefined;
+  }
 }
@@ -0,0 +1,400 @@
+import { createPublicKey, verify as verifySignature, type KeyObject } from 'crypto';
+import { BaseProvider } from './base.js';
+import { KeyUnavailableError } from '../errors.js';
+import { createKeyCache, getBodyField } from '../utils.js';
+import type {
+  SnsCertificateCache,
+  SnsMessage,
+  SnsProviderOptions,
+  WebhookAutoResponse,
+  WebhookRequestContext,
+} from '../types.js';
+
+const SNS_HOST_PATTERN = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+
+// Downloads from SNS are aborted after this delay, so a slow response cannot hold requests
+const FETCH_TIMEOUT = 5000;
+
+// Certificate URLs that failed to download are not retried for this delay
+const CERTIFICATE_RETRY_DELAY = 60_000;
+
+// Maximum number of failed certificate URLs remembered by a provider
+const MAX_CERTIFICATE_FAILURES = 1000;
+
+const MESSAGE_TYPES = new Set([
+  'Notification',
+  'SubscriptionConfirmation',
+  'UnsubscribeConfirmation',
+]);
+
+const REQUIRED_FIELDS = [
+  'Type',
+  'MessageId',
+  'TopicArn',
+  'Message',
+  'Timestamp',
+  'SignatureVersion',
+  'Signature',
+  'SigningCertURL',
+] as const;
+
+/**
+ * Fields included in the string to sign, in order
+ */
+const SIGNED_FIELDS: Record<SnsMessage['Type'], readonly (keyof SnsMessage)[]> = {
+  Notification: ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type'],
+  SubscriptionConfirmation: [
+    'Message',
+    'MessageId',
+    'SubscribeURL',
+    'Timestamp',
+    'Token',
+    'TopicArn',
+    'Type',
+  ],
+  UnsubscribeConfirmation: [
+    'Message',
+    'MessageId',
+    'SubscribeURL',
+    'Timestamp',
+    'Token',
+    'TopicArn',
+    'Type',
+  ],
+};
+
+/**
+ * In-memory certificate cache
+ */
+class InMemoryCertificateCache implements SnsCertificateCache {
+  private readonly certificates = new Map<string, string>();
+
+  get(url: string): Promise<string | undefined> {
+    return Promise.resolve(this.certificates.get(url));
+  }
+
+  set(url: string, certificate: string): Promise<void> {
+    this.certificates.set(url, certificate);
+    return Promise.resolve();
+  }
+}
+
+// Signing certificates are global, so the default cache is shared by all routes
+const defaultCertificateCache = new InMemoryCertificateCache();
+
+// Bodies parsed from raw bodies, so a request body is parsed once
+const parsedBodies = new WeakMap<Buffer, unknown>();
+
+// Public keys of the certificates, imported once whatever cache stores the PEM
+const getCertificateKey = createKeyCache((certificate): KeyObject => createPublicKey(certificate));
+
+/**
+ * Download a URL with an HTTPS GET
+ */
+async function httpGet(url: string): Promise<string> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${String(response.status)}`);
+  }
+  return response.text();
+}
+
+/**
+ * Amazon SNS HTTP(S) subscription provider
+ * Signature: RSA (SignatureVersion 1 = SHA1, 2 = SHA256) over a canonical string,
+ * with signature and certificate URL in the JSON body. No secret is needed.
+ */
+export class SnsProvider extends BaseProvider {
+  override readonly requiresSecret = false;
+
+  private readonly options: SnsProviderOptions;
+
+  // Failed certificate URLs and the time of the failure
+  private readonly certificateFailures = new Map<string, number>();
+
+  // Downloads in progress, shared by concurrent requests
+  private readonly certificateLoads = new Map<string, Promise<string>>();
+
+  constructor(options: SnsProviderOptions = {}) {
+    super({
+      name: 'sns',
+      signatureHeader: undefined,
+      signatureField: 'Signature',
+      timestampHeader: undefined,
+      timestampField: 'Timestamp',
+      timestampFormat: 'iso8601',
+      algorithm: 'sha256',
+      signatureEncoding: 'base64',
+    });
+    this.options = options;
+  }
+
+  /**
+   * Signature value is the raw base64 signature
+   */
+  extractSignature(value: string): string {
+    return value;
+  }
+
+  /**
+   * Read the signature from the message
+   */
+  override readSignature(context: WebhookRequestContext): string | undefined {
+    return super.readSignature({ ...context, body: readSnsBody(context.body, context.rawBody) });
+  }
+
+  /**
+   * Read the timestamp from the message
+   */
+  override extractTimestamp(
+    context: WebhookRequestContext,
+    signatureHeader: string
+  ): Date | undefined {
+    return super.extractTimestamp(
+      { ...context, body: readSnsBody(context.body, context.rawBody) },
+      signatureHeader
+    );
+  }
+
+  /**
+   * The MessageId identifies a message and is used as replay nonce
+   */
+  override extractNonce(context: WebhookRequestContext): string | undefined {
+    return readSnsMessage(context.body, context.rawBody)?.MessageId;
+  }
+
+  /**
+   * Expose the verified message, whatever the content type it was posted with
+   */
+  override extractPayload(body: unknown, context?: WebhookRequestContext): SnsMessage | undefined {
+    return readSnsMessage(body, context?.rawBody);
+  }
+
+  /**
+   * Build the canonical string to sign for a message
+   */
+  buildStringToSign(message: SnsMessage): string {
+    let payload = '';
+    for (const field of SIGNED_FIELDS[message.Type]) {
+      const value = message[field];
+      if (value !== undefined) {
+        payload += `${field}\n${value}\n`;
+      }
+    }
+    return payload;
+  }
+
+  /**
+   * SNS signatures are RSA signatures and cannot be computed; returns the string to sign
+   */
+  computeSignature(
+    _rawBody: Buffer,
+    _secret: string,
+    _timestamp?: Date,
+    context?: WebhookRequestContext
+  ): string {
+    const message = context ? readSnsMessage(context.body, context.rawBody) : undefined;
+    if (!message) {
+      throw new Error('A valid SNS message is required for SNS verification');
+    }
+    return this.buildStringToSign(message);
+  }
+
+  /**
+   * Verify the message signature with the SNS signing certificate
+   */
+  override async verify(
+    signatures: string[],
+    _rawBody: Buffer,
+    _secret: string,
+    _timestamp?: Date,
+    context?: WebhookRequestContext
+  ): Promise<boolean> {
+    const message = context ? readSnsMessage(context.body, context.rawBody) : undefined;
+    if (!message || !isSnsUrl(message.SigningCertURL, '.pem')) {
+      return false;
+    }
+    if (this.options.topicArns && !this.options.topicArns.includes(message.TopicArn)) {
+      return false;
+    }
+
+    const digest = getDigest(message.SignatureVersion);
+    if (!digest) {
+      return false;
+    }
+
+    const certificate = await this.getCertificate(message.SigningCertURL);
+    let key: KeyObject;
+    try {
+      key = getCertificateKey(certificate);
+    } catch {
+      return false;
+    }
+    const payload = Buffer.from(this.buildStringToSign(message));
+
+    return signatures.some((signature) => {
+      try {
+        return verifySignature(digest, payload, key, Buffer.from(signature, 'base64'));
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Extract message type (Notification, SubscriptionConfirmation, ...)
+   */
+  override extractEventType(
+    body: Record<string, unknown>,
+    context?: WebhookRequestContext
+  ): string | undefined {
+    return readSnsMessage(body, context?.rawBody)?.Type;
+  }
+
+  /**
+   * Confirm subscriptions when enabled and answer the confirmation message
+   */
+  override async getAutoResponse(
+    body: unknown,
+    context?: WebhookRequestContext
+  ): Promise<WebhookAutoResponse | undefined> {
+    const { confirmSubscription = false } = this.options;
+    const message = readSnsMessage(body, context?.rawBody);
+    if (!confirmSubscription || message?.Type !== 'SubscriptionConfirmation') {
+      return undefined;
+    }
+
+    if (typeof confirmSubscription === 'function') {
+      await confirmSubscription(message);
+    } else {
+      if (!message.SubscribeURL || !isSnsUrl(message.SubscribeURL)) {
+        throw new Error('Invalid SNS SubscribeURL');
+      }
+      await httpGet(message.SubscribeURL);
+    }
+
+    return { body: { confirmed: true } };
+  }
+
+  /**
+   * Get a signing certificate from the cache or download it (one download per URL at a time)
+   * Failed downloads throw KeyUnavailableError (retryable) and are not retried for
+   * CERTIFICATE_RETRY_DELAY
+   */
+  private async getCertificate(url: string): Promise<string> {
+    const cache = this.options.certificateCache ?? defaultCertificateCache;
+    const cached = await cache.get(url);
+    if (cached) {
+      return cached;
+    }
+
+    const failedAt = this.certificateFailures.get(url);
+    if (failedAt !== undefined && Date.now() - failedAt < CERTIFICATE_RETRY_DELAY) {
+      throw new KeyUnavailableError(this.name);
+    }
+
+    let loading = this.certificateLoads.get(url);
+    if (!loading) {
+      loading = this.downloadCertificate(url).finally(() => {
+        this.certificateLoads.delete(url);
+      });
+      this.certificateLoads.set(url, loading);
+    }
+    return loading;
+  }
+
+  /**
+   * Download a signing certificate and cache it, remembering failed downloads
+   */
+  private async downloadCertificate(url: string): Promise<string> {
+    const cache = this.options.certificateCache ?? defaultCertificateCache;
+    let certificate: string;
+    try {
+      certificate = await (this.options.fetchCertificate ?? httpGet)(url);
+    } catch {
+      this.certificateFailures.delete(url);
+      if (this.certificateFailures.size >= MAX_CERTIFICATE_FAILURES) {
+        const [oldest] = this.certificateFailures.keys();
+        if (oldest !== undefined) {
+          this.certificateFailures.delete(oldest);
+        }
+      }
+      this.certificateFailures.set(url, Date.now());
+      throw new KeyUnavailableError(this.name);
+    }
+
+    this.certificateFailures.delete(url);
+    await cache.set(url, certificate);
+    return certificate;
+  }
+}
+
+/**
+ * Validate and narrow a parsed body to an SNS message
+ */
+export function parseSnsMessage(body: unknown): SnsMessage | undefined {
+  for (const field of REQUIRED_FIELDS) {
+    if (typeof getBodyField(body, field) !== 'string') {
+      return undefined;
+    }
+  }
+  const message = body as SnsMessage;
+  return MESSAGE_TYPES.has(message.Type) ? message : undefined;
+}
+
+/**
+ * Read the JSON body of a request
+ * SNS posts JSON as text/plain, so the body is parsed from the raw body when there is one
+ */
+function readSnsBody(body: unknown, rawBody: Buffer | undefined): unknown {
+  if (!rawBody) {
+    return body;
+  }
+  if (!parsedBodies.has(rawBody)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawBody.toString());
+    } catch {
+      parsed = undefined;
+    }
+    parsedBodies.set(rawBody, parsed);
+  }
+  return parsedBodies.get(rawBody);
+}
+
+/**
+ * Read the SNS message of a request
+ */
+function readSnsMessage(body: unknown, rawBody: Buffer | undefined): SnsMessage | undefined {
+  return parseSnsMessage(readSnsBody(body, rawBody));
+}
+
+/**
+ * Check that a URL is an HTTPS URL served by SNS
+ */
+function isSnsUrl(value: string, extension?: string): boolean {
+  try {
+    const url = new URL(value);
+    return (
+      url.protocol === 'https:' &&
+      url.port === '' &&
+      SNS_HOST_PATTERN.test(url.hostname) &&
+      (extension === undefined || url.pathname.endsWith(extension))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Digest for a SignatureVersion
+ */
+function getDigest(signatureVersion: string): string | undefined {
+  if (signatureVersion === '1') {
+    return 'RSA-SHA1';
+  }
+  if (signatureVersion === '2') {
+    return 'RSA-SHA256';
+  }
+  return undefined;
+}
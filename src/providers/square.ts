@@ -0,0 +1,63 @@
+import { BaseProvider } from './base.js';
+import { getBodyField } from '../utils.js';
+import type { SquareProviderOptions, WebhookRequestContext } from '../types.js';
+
+/**
+ * Square webhook provider
+ * Signature: base64 HMAC-SHA256 of the notification URL followed by the raw body
+ * The notification URL is the configured one, or the public URL of the request
+ */
+export class SquareProvider extends BaseProvider {
+  private readonly options: SquareProviderOptions;
+
+  constructor(options: SquareProviderOptions = {}) {
+    super({
+      name: 'square',
+      signatureHeader: 'x-square-hmacsha256-signature',
+      timestampHeader: undefined,
+      algorithm: 'sha256',
+      signatureEncoding: 'base64',
+    });
+    this.options = options;
+  }
+
+  /**
+   * Extract signature from X-Square-HmacSha256-Signature header
+   * Format: raw base64 signature
+   */
+  extractSignature(headerValue: string): string {
+    return headerValue;
+  }
+
+  /**
+   * The event_id identifies an event and is used as replay nonce
+   */
+  override extractNonce(context: WebhookRequestContext): string | undefined {
+    const eventId = getBodyField(context.body, 'event_id');
+    return typeof eventId === 'string' ? eventId : undefined;
+  }
+
+  /**
+   * Compute Square signature
+   * Payload: notification URL + raw body
+   */
+  computeSignature(
+    rawBody: Buffer,
+    secret: string,
+    _timestamp?: Date,
+    context?: WebhookRequestContext
+  ): string {
+    const notificationUrl = this.options.notificationUrl ?? context?.url;
+    if (!notificationUrl) {
+      throw new Error('Notification URL is required for Square webhook verification');
+    }
+    return this.createHmac([notificationUrl, rawBody], secret);
+  }
+
+  /**
+   * Extract event type from Square webhook body
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    return typeof body.type === 'string' ? body.type : undefined;
+  }
+}
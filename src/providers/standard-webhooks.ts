@@ -0,0 +1,125 @@
+import { createSecretKey, type KeyObject } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { BaseProvider } from './base.js';
+import { createKeyCache, getHeader } from '../utils.js';
+import type { WebhookRequestContext } from '../types.js';
+
+const SECRET_PREFIX = 'whsec_';
+
+/**
+ * Standard Webhooks provider (Svix, Clerk, Resend, ...)
+ * Headers: webhook-id, webhook-timestamp, webhook-signature
+ * (legacy svix-id, svix-timestamp, svix-signature are also accepted)
+ * Signature format: space-separated list of v1,signature entries
+ */
+export class StandardWebhooksProvider extends BaseProvider {
+  constructor() {
+    super({
+      name: 'standard-webhooks',
+      signatureHeader: 'webhook-signature',
+      timestampHeader: 'webhook-timestamp',
+      algorithm: 'sha256',
+      signatureEncoding: 'base64',
+    });
+  }
+
+  /**
+   * Read webhook-signature, falling back to svix-signature
+   */
+  override readSignatureHeader(headers: IncomingHttpHeaders): string | undefined {
+    return readHeader(headers, 'signature');
+  }
+
+  /**
+   * Extract the first v1 signature from the signature header
+   * Format: v1,signature v1,signature
+   */
+  extractSignature(headerValue: string): string {
+    const [signature] = this.extractSignatures(headerValue);
+    if (!signature) {
+      throw new Error('No v1 signature found in webhook-signature header');
+    }
+    return signature;
+  }
+
+  /**
+   * Extract every v1 signature from the signature header
+   */
+  override extractSignatures(headerValue: string): string[] {
+    const signatures: string[] = [];
+    for (const entry of headerValue.split(' ')) {
+      const [version, signature] = entry.split(',');
+      if (version === 'v1' && signature) {
+        signatures.push(signature);
+      }
+    }
+    if (signatures.length === 0) {
+      throw new Error('No v1 signature found in webhook-signature header');
+    }
+    return signatures;
+  }
+
+  /**
+   * Read webhook-timestamp, falling back to svix-timestamp
+   */
+  override extractTimestamp(
+    context: WebhookRequestContext,
+    _signatureHeader: string
+  ): Date | undefined {
+    const headerValue = readHeader(context.headers, 'timestamp');
+    return headerValue ? this.parseTimestamp(headerValue) : undefined;
+  }
+
+  /**
+   * The message id identifies a delivery and is used as replay nonce
+   */
+  override extractNonce(context: WebhookRequestContext): string | undefined {
+    return readHeader(context.headers, 'id');
+  }
+
+  /**
+   * Compute Standard Webhooks signature
+   * Payload: id.timestamp.body
+   * Key: base64-decoded secret (without the whsec_ prefix)
+   */
+  computeSignature(
+    rawBody: Buffer,
+    secret: string,
+    timestamp?: Date,
+    context?: WebhookRequestContext
+  ): string {
+    if (!timestamp) {
+      throw new Error('Timestamp is required for Standard Webhooks verification');
+    }
+    const id = context ? readHeader(context.headers, 'id') : undefined;
+    if (!id) {
+      throw new Error('Message id is required for Standard Webhooks verification');
+    }
+    const ts = String(Math.floor(timestamp.getTime() / 1000));
+    return this.createHmac([`${id}.${ts}.`, rawBody], getWebhookKey(secret));
+  }
+
+  /**
+   * Extract event type from Standard Webhooks body
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    return typeof body.type === 'string' ? body.type : undefined;
+  }
+}
+
+/**
+ * Read a webhook-* header, falling back to its legacy svix-* name
+ */
+function readHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  return getHeader(headers, `webhook-${name}`) ?? getHeader(headers, `svix-${name}`);
+}
+
+/**
+ * Decode a Standard Webhooks secret into the HMAC key
+ */
+function decodeSecret(secret: string): KeyObject {
+  const encoded = secret.startsWith(SECRET_PREFIX) ? secret.slice(SECRET_PREFIX.length) : secret;
+  return createSecretKey(Buffer.from(encoded, 'base64'));
+}
+
+const getWebhookKey = createKeyCache(decodeSecret);
@@ -1,11 +1,15 @@
 import { BaseProvider } from './base.js';
+import { LivemodeMismatchError } from '../errors.js';
+import type { StripeProviderOptions, WebhookMetadata, WebhookRequestContext } from '../types.js';
 
 /**
  * Stripe webhook provider
- * Signature format: t=timestamp,v1=signature
+ * Signature format: t=timestamp,v1=signature (several v1 during secret rolls)
  */
 export class StripeProvider extends BaseProvider {
-  constructor() {
+  private readonly options: StripeProviderOptions;
+
+  constructor(options: StripeProviderOptions = {}) {
     super({
       name: 'stripe',
       signatureHeader: 'stripe-signature',
@@ -13,35 +17,62 @@ export class StripeProvider extends BaseProvider {
       algorithm: 'sha256',
       signatureEncoding: 'hex',
     });
+    this.options = options;
   }
 
   /**
-   * Extract v1 signature from Stripe-Signature header
+   * Extract first v1 signature from Stripe-Signature header
    * Format: t=timestamp,v1=signature
    */
   extractSignature(headerValue: string): string {
-    const parts = headerValue.split(',');
-    for (const part of parts) {
+    const [signature] = this.extractSignatures(headerValue);
+    if (!signature) {
+      throw new Error('No v1 signature found in Stripe-Signature header');
+    }
+    return signature;
+  }
+
+  /**
+   * Extract every v1 signature from Stripe-Signature header
+   * With rejectV0, headers carrying v0 (test scheme) signatures are refused
+   */
+  override extractSignatures(headerValue: string): string[] {
+    const signatures: string[] = [];
+    for (const part of headerValue.split(',')) {
       const [key, value] = part.split('=');
+      if (key === 'v0' && this.options.rejectV0) {
+        throw new Error('v0 signatures are not accepted');
+      }
       if (key === 'v1' && value) {
-        return value;
+        signatures.push(value);
       }
     }
-    throw new Error('No v1 signature found in Stripe-Signature header');
+    if (signatures.length === 0) {
+      throw new Error('No v1 signature found in Stripe-Signature header');
+    }
+    return signatures;
   }
 
   /**
    * Parse timestamp from Stripe-Signature header
    */
   override parseTimestamp(headerValue: string): Date {
-    const parts = headerValue.split(',');
-    for (const part of parts) {
-      const [key, value] = part.split('=');
-      if (key === 't' && value) {
-        return new Date(parseInt(value, 10) * 1000);
-      }
+    const timestamp = this.readTimestamp(headerValue);
+    if (!timestamp) {
+      throw new Error('No timestamp found in Stripe-Signature header');
     }
-    throw new Error('No timestamp found in Stripe-Signature header');
+    return timestamp;
+  }
+
+  /**
+   * Stripe has the timestamp in the signature header
+   * Headers without a timestamp fail verification as invalid signatures
+   */
+  override extractTimestamp(
+    _context: WebhookRequestContext,
+    signatureHeader: string
+  ): Date | undefined {
+    return this.readTimestamp(signatureHeader);
   }
 
   /**
@@ -53,8 +84,32 @@ export class StripeProvider extends BaseProvider {
       throw new Error('Timestamp is required for Stripe webhook verification');
     }
     const ts = String(Math.floor(timestamp.getTime() / 1000));
-    const payload = `${ts}.${rawBody.toString()}`;
-    return this.createHmac(payload, secret);
+    return this.createHmac([`${ts}.`, rawBody], secret);
+  }
+
+  /**
+   * Verify signatures, then the event livemode when the route requires one
+   */
+  override verify(
+    signatures: string[],
+    rawBody: Buffer,
+    secret: string,
+    timestamp?: Date,
+    context?: WebhookRequestContext
+  ): boolean {
+    const expected = this.computeSignature(rawBody, secret, timestamp);
+    if (!signatures.some((signature) => this.verifySignature(signature, expected))) {
+      return false;
+    }
+
+    const { livemode } = this.options;
+    if (livemode !== undefined) {
+      const eventLivemode = readEvent(context?.body).livemode;
+      if (eventLivemode !== livemode) {
+        throw new LivemodeMismatchError(this.name, eventLivemode === true);
+      }
+    }
+    return true;
   }
 
   /**
@@ -63,4 +118,42 @@ export class StripeProvider extends BaseProvider {
   override extractEventType(body: Record<string, unknown>): string | undefined {
     return typeof body.type === 'string' ? body.type : undefined;
   }
+
+  /**
+   * Read the event id, livemode and Connect account from the body
+   */
+  override extractMetadata(context: WebhookRequestContext): WebhookMetadata {
+    const { id, account, livemode } = readEvent(context.body);
+    const metadata: WebhookMetadata = {};
+    if (typeof id === 'string') {
+      metadata.id = id;
+    }
+    if (typeof account === 'string') {
+      metadata.account = account;
+    }
+    if (typeof livemode === 'boolean') {
+      metadata.livemode = livemode;
+    }
+    return metadata;
+  }
+
+  /**
+   * Timestamp (t=) of a Stripe-Signature header
+   */
+  private readTimestamp(headerValue: string): Date | undefined {
+    for (const part of headerValue.split(',')) {
+      const [key, value] = part.split('=');
+      if (key === 't' && value) {
+        return new Date(parseInt(value, 10) * 1000);
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Event fields read from the body
+ */
+function readEvent(body: unknown): { id?: unknown; account?: unknown; livemode?: unknown } {
+  return typeof body === 'object' && body !== null ? body : {};
 }
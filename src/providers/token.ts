@@ -0,0 +1,38 @@
+import { BaseProvider, type WebhookProviderConfig } from './base.js';
+import { timingSafeTokenCompare } from '../utils.js';
+
+/**
+ * Base class for providers that send the shared secret itself instead of a signature
+ * The header value is compared with the configured secret in constant time
+ */
+export abstract class TokenProvider extends BaseProvider {
+  constructor(config: Omit<WebhookProviderConfig, 'algorithm' | 'signatureEncoding'>) {
+    super({
+      ...config,
+      algorithm: 'token',
+      // Tokens are compared as plain strings; the encoding is not used
+      signatureEncoding: 'hex',
+    });
+  }
+
+  /**
+   * The header value is the token
+   */
+  extractSignature(headerValue: string): string {
+    return headerValue;
+  }
+
+  /**
+   * The expected token is the secret
+   */
+  computeSignature(_rawBody: Buffer, secret: string, _timestamp?: Date): string {
+    return secret;
+  }
+
+  /**
+   * Compare tokens in constant time
+   */
+  override verifySignature(provided: string, expected: string): boolean {
+    return timingSafeTokenCompare(provided, expected);
+  }
+}
@@ -1,10 +1,23 @@
+import { createHash } from 'crypto';
 import { BaseProvider } from './base.js';
+import { timingSafeCompare } from '../utils.js';
+import type { WebhookRequestContext } from '../types.js';
+
+const URL_PATTERN = /^(https?):\/\/([^/:?#]+)(?::(\d+))?(.*)$/;
+
+const DEFAULT_PORTS: Record<string, string> = {
+  http: '80',
+  https: '443',
+};
 
 /**
  * Twilio webhook provider
- * Signature: base64-encoded HMAC-SHA1
+ * Signature: base64-encoded HMAC-SHA1 of the full URL followed by the
+ * POST parameters sorted by name (name + value, no separators)
  */
 export class TwilioProvider extends BaseProvider {
+  override readonly postsFormBody = true;
+
   constructor() {
     super({
       name: 'twilio',
@@ -25,10 +38,108 @@ export class TwilioProvider extends BaseProvider {
 
   /**
    * Compute Twilio signature
-   * Note: For full Twilio verification, URL + sorted params should be used.
-   * This is a simplified version using raw body.
+   * Payload: URL + sorted form parameters
+   * JSON callbacks carry a bodySHA256 query parameter and sign the URL only
    */
-  computeSignature(rawBody: Buffer, secret: string, _timestamp?: Date): string {
-    return this.createHmac(rawBody.toString(), secret);
+  computeSignature(
+    _rawBody: Buffer,
+    secret: string,
+    _timestamp?: Date,
+    context?: WebhookRequestContext
+  ): string {
+    if (!context) {
+      throw new Error('Request context is required for Twilio webhook verification');
+    }
+    return this.createHmac(buildPayload(context.url, getSignedParams(context)), secret);
+  }
+
+  /**
+   * Verify Twilio signature
+   * Twilio may sign the URL with or without an explicit port, so both forms are
+   * accepted. For JSON callbacks the body hash in bodySHA256 must also match.
+   */
+  override verify(
+    signatures: string[],
+    rawBody: Buffer,
+    secret: string,
+    _timestamp?: Date,
+    context?: WebhookRequestContext
+  ): boolean {
+    if (!context) {
+      throw new Error('Request context is required for Twilio webhook verification');
+    }
+
+    const bodyHash = getBodyHash(context.url);
+    if (bodyHash !== undefined) {
+      const actual = createHash('sha256').update(rawBody).digest('hex');
+      if (!timingSafeCompare(bodyHash, actual, 'hex')) {
+        return false;
+      }
+    }
+
+    const params = getSignedParams(context);
+    return getUrlVariants(context.url).some((url) => {
+      const expected = this.createHmac(buildPayload(url, params), secret);
+      return signatures.some((signature) => this.verifySignature(signature, expected));
+    });
+  }
+}
+
+/**
+ * Read the bodySHA256 query parameter, if present
+ */
+function getBodyHash(url: string): string | undefined {
+  try {
+    return new URL(url).searchParams.get('bodySHA256') ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Form parameters included in the signature
+ * JSON callbacks (bodySHA256) sign no parameters
+ */
+function getSignedParams(context: WebhookRequestContext): Record<string, unknown> {
+  if (getBodyHash(context.url) !== undefined) {
+    return {};
+  }
+  const { body } = context;
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+    return {};
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Build the Twilio signed payload: URL followed by sorted name/value pairs
+ */
+function buildPayload(url: string, params: Record<string, unknown>): string {
+  let payload = url;
+  for (const key of Object.keys(params).sort()) {
+    const value = params[key];
+    const values = Array.isArray(value) ? value.map(String).sort() : [String(value)];
+    for (const item of values) {
+      payload += key + item;
+    }
   }
+  return payload;
+}
+
+/**
+ * URL as received plus the same URL with the port stripped or added
+ */
+function getUrlVariants(url: string): string[] {
+  const match = URL_PATTERN.exec(url);
+  if (!match) {
+    return [url];
+  }
+
+  const [, protocol = '', host = '', port, rest = ''] = match;
+  if (port !== undefined) {
+    return [url, `${protocol}://${host}${rest}`];
+  }
+
+  const defaultPort = DEFAULT_PORTS[protocol];
+  return defaultPort ? [url, `${protocol}://${host}:${defaultPort}${rest}`] : [url];
 }
@@ -0,0 +1,94 @@
+import { BaseProvider } from './base.js';
+import { getBodyField, getHeader } from '../utils.js';
+import type { WebhookAutoResponse, WebhookRequestContext } from '../types.js';
+
+const MESSAGE_ID_HEADER = 'twitch-eventsub-message-id';
+const MESSAGE_TIMESTAMP_HEADER = 'twitch-eventsub-message-timestamp';
+const MESSAGE_TYPE_HEADER = 'twitch-eventsub-message-type';
+
+/**
+ * Twitch EventSub webhook provider
+ * Signature format: sha256=signature
+ * Payload: message id + message timestamp (RFC 3339) + body
+ */
+export class TwitchProvider extends BaseProvider {
+  constructor() {
+    super({
+      name: 'twitch',
+      signatureHeader: 'twitch-eventsub-message-signature',
+      timestampHeader: MESSAGE_TIMESTAMP_HEADER,
+      timestampFormat: 'iso8601',
+      algorithm: 'sha256',
+      signatureEncoding: 'hex',
+    });
+  }
+
+  /**
+   * Extract signature from Twitch-Eventsub-Message-Signature header
+   * Format: sha256=signature
+   */
+  extractSignature(headerValue: string): string {
+    const prefix = 'sha256=';
+    if (headerValue.startsWith(prefix)) {
+      return headerValue.slice(prefix.length);
+    }
+    throw new Error('Invalid Twitch signature format');
+  }
+
+  /**
+   * Twitch-Eventsub-Message-Id identifies a message and is used as replay nonce
+   */
+  override extractNonce(context: WebhookRequestContext): string | undefined {
+    return getHeader(context.headers, MESSAGE_ID_HEADER);
+  }
+
+  /**
+   * Compute Twitch signature
+   * Payload: message id + raw timestamp header + body
+   */
+  computeSignature(
+    rawBody: Buffer,
+    secret: string,
+    _timestamp?: Date,
+    context?: WebhookRequestContext
+  ): string {
+    const id = context ? getHeader(context.headers, MESSAGE_ID_HEADER) : undefined;
+    const ts = context ? getHeader(context.headers, MESSAGE_TIMESTAMP_HEADER) : undefined;
+    if (!id || !ts) {
+      throw new Error('Message id and timestamp are required for Twitch webhook verification');
+    }
+    return this.createHmac([id + ts, rawBody], secret);
+  }
+
+  /**
+   * Extract subscription type (e.g. channel.follow) for notifications;
+   * other messages report their message type (webhook_callback_verification, revocation)
+   */
+  override extractEventType(
+    body: Record<string, unknown>,
+    context?: WebhookRequestContext
+  ): string | undefined {
+    const messageType = context ? getHeader(context.headers, MESSAGE_TYPE_HEADER) : undefined;
+    if (messageType && messageType !== 'notification') {
+      return messageType;
+    }
+    const type = getBodyField(body.subscription, 'type');
+    return typeof type === 'string' ? type : undefined;
+  }
+
+  /**
+   * Echo the challenge of webhook_callback_verification messages
+   */
+  override getAutoResponse(
+    body: unknown,
+    context: WebhookRequestContext
+  ): WebhookAutoResponse | undefined {
+    if (getHeader(context.headers, MESSAGE_TYPE_HEADER) !== 'webhook_callback_verification') {
+      return undefined;
+    }
+    const challenge = getBodyField(body, 'challenge');
+    return typeof challenge === 'string'
+      ? { contentType: 'text/plain', body: challenge }
+      : undefined;
+  }
+}
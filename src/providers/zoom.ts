@@ -0,0 +1,72 @@
+import { BaseProvider } from './base.js';
+import { getBodyField } from '../utils.js';
+import type { WebhookAutoResponse, WebhookRequestContext } from '../types.js';
+
+/**
+ * Zoom webhook provider
+ * Signature format: v0=signature
+ * Separate timestamp header
+ */
+export class ZoomProvider extends BaseProvider {
+  constructor() {
+    super({
+      name: 'zoom',
+      signatureHeader: 'x-zm-signature',
+      timestampHeader: 'x-zm-request-timestamp',
+      algorithm: 'sha256',
+      signatureEncoding: 'hex',
+    });
+  }
+
+  /**
+   * Extract signature from X-Zm-Signature header
+   * Format: v0=signature
+   */
+  extractSignature(headerValue: string): string {
+    const prefix = 'v0=';
+    if (headerValue.startsWith(prefix)) {
+      return headerValue.slice(prefix.length);
+    }
+    throw new Error('Invalid Zoom signature format');
+  }
+
+  /**
+   * Compute Zoom signature
+   * Payload: v0:timestamp:body
+   */
+  computeSignature(rawBody: Buffer, secret: string, timestamp?: Date): string {
+    if (!timestamp) {
+      throw new Error('Timestamp is required for Zoom webhook verification');
+    }
+    const ts = String(Math.floor(timestamp.getTime() / 1000));
+    return this.createHmac([`v0:${ts}:`, rawBody], secret);
+  }
+
+  /**
+   * Extract event type from Zoom webhook body
+   */
+  override extractEventType(body: Record<string, unknown>): string | undefined {
+    return typeof body.event === 'string' ? body.event : undefined;
+  }
+
+  /**
+   * Answer endpoint.url_validation events with the plain and encrypted token
+   * encryptedToken: hex HMAC-SHA256 of plainToken with the secret token
+   */
+  override getAutoResponse(
+    body: unknown,
+    _context: WebhookRequestContext,
+    secret: string
+  ): WebhookAutoResponse | undefined {
+    if (getBodyField(body, 'event') !== 'endpoint.url_validation') {
+      return undefined;
+    }
+    const plainToken = getBodyField(getBodyField(body, 'payload'), 'plainToken');
+    if (typeof plainToken !== 'string') {
+      return undefined;
+    }
+    return {
+      body: { plainToken, encryptedToken: this.createHmac(plainToken, secret) },
+    };
+  }
+}
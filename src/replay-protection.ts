@@ -25,6 +25,11 @@ class InMemoryReplayStorage implements ReplayStorage {
     return Promise.resolve();
   }
 
+  delete(nonce: string): Promise<void> {
+    this.nonces.delete(nonce);
+    return Promise.resolve();
+  }
+
   cleanup(): Promise<void> {
     const now = Date.now();
     for (const [nonce, expiresAt] of this.nonces) {
@@ -52,6 +57,8 @@ export interface ReplayGuard {
   check(nonce: string): Promise<boolean>;
   /** Record a nonce */
   record(nonce: string): Promise<void>;
+  /** Forget a recorded nonce (when the storage supports it) */
+  release(nonce: string): Promise<void>;
   /** Destroy the guard and cleanup resources */
   destroy?(): void;
 }
@@ -74,6 +81,10 @@ export function createReplayProtection(config: ReplayProtectionConfig): ReplayGu
       await storage.set(nonce, expiresAt);
     },
 
+    async release(nonce: string): Promise<void> {
+      await storage.delete?.(nonce);
+    },
+
     destroy(): void {
       if ('destroy' in storage && typeof storage.destroy === 'function') {
         (storage as InMemoryReplayStorage).destroy();
@@ -0,0 +1,136 @@
+import { watch, type FSWatcher } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { EnvSecretStoreOptions, FileSecretStoreOptions, SecretStore } from './types.js';
+
+/**
+ * Provider and tenant names allowed in file names
+ * Tenants usually come from the request, so paths must not be able to leave the directory
+ */
+const FILE_NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+interface CachedSecretFile {
+  secret: Promise<string | undefined>;
+  expiresAt: number;
+}
+
+/**
+ * Secret store reading environment variables
+ * stripe -> WEBHOOK_SECRET_STRIPE, standard-webhooks -> WEBHOOK_SECRET_STANDARD_WEBHOOKS,
+ * shopify for tenant example.myshopify.com -> WEBHOOK_SECRET_SHOPIFY__EXAMPLE_MYSHOPIFY_COM
+ */
+export function createEnvSecretStore(options: EnvSecretStoreOptions = {}): SecretStore {
+  const { prefix = 'WEBHOOK_SECRET_', env = process.env } = options;
+
+  return {
+    get(provider: string, tenant?: string): string | undefined {
+      const name = prefix + toEnvName(provider) + (tenant ? `__${toEnvName(tenant)}` : '');
+      const secret = env[name];
+      return secret === '' ? undefined : secret;
+    },
+  };
+}
+
+/**
+ * Secret store reading one file per provider, such as a mounted Kubernetes secret
+ * Files are cached and reloaded when the directory changes (Kubernetes swaps the
+ * `..data` symlink, so every cached file is reloaded). Missing files are cached for
+ * negativeTtl, and at most maxEntries files are cached, since tenants come from requests
+ */
+export function createFileSecretStore(options: FileSecretStoreOptions): SecretStore {
+  const { directory, watch: watchFiles = true, negativeTtl = 60, maxEntries = 1000 } = options;
+  const cache = new Map<string, CachedSecretFile>();
+  const listeners = new Set<(provider: string | undefined) => void>();
+
+  let watcher: FSWatcher | undefined;
+  if (watchFiles) {
+    watcher = watch(directory, (_event, filename) => {
+      cache.clear();
+      const name = filename?.toString();
+      const provider = name && FILE_NAME_PATTERN.test(name) ? name.split('.')[0] : undefined;
+      for (const listener of listeners) {
+        listener(provider);
+      }
+    });
+    watcher.unref();
+  }
+
+  return {
+    get(provider: string, tenant?: string): Promise<string | undefined> | undefined {
+      const name = tenant ? `${provider}.${tenant}` : provider;
+      if (!FILE_NAME_PATTERN.test(provider) || !FILE_NAME_PATTERN.test(name)) {
+        return undefined;
+      }
+
+      const cached = cache.get(name);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.secret;
+      }
+
+      // Entries are in insertion order: evict the oldest when full
+      cache.delete(name);
+      if (cache.size >= maxEntries) {
+        const [oldest] = cache.keys();
+        if (oldest !== undefined) {
+          cache.delete(oldest);
+        }
+      }
+
+      const entry: CachedSecretFile = {
+        secret: readSecretFile(join(directory, name)),
+        // Files are kept until the directory changes; in-flight reads are shared
+        expiresAt: Infinity,
+      };
+      cache.set(name, entry);
+      entry.secret.then(
+        (secret) => {
+          if (secret === undefined) {
+            entry.expiresAt = Date.now() + negativeTtl * 1000;
+          }
+        },
+        () => {
+          // Read errors are not cached
+          if (cache.get(name) === entry) {
+            cache.delete(name);
+          }
+        }
+      );
+      return entry.secret;
+    },
+
+    subscribe(listener: (provider: string | undefined) => void): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    close(): void {
+      watcher?.close();
+      listeners.clear();
+      cache.clear();
+    },
+  };
+}
+
+/**
+ * Environment variable form of a provider or tenant name
+ */
+function toEnvName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+/**
+ * Read a trimmed secret file; missing or empty files have no secret
+ */
+async function readSecretFile(path: string): Promise<string | undefined> {
+  try {
+    const secret = (await readFile(path, 'utf8')).trim();
+    return secret || undefined;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import type { FastifyRequest } from 'fastify';
+import type {
+  SecretResolverOptions,
+  WebhookProvider,
+  WebhookSecret,
+  WebhookSecretConfig,
+  WebhookSecretEntry,
+  WebhookSecretResolver,
+} from './types.js';
+
+interface CachedSecret {
+  secret: Promise<WebhookSecret | undefined>;
+  expiresAt: number;
+}
+
+/**
+ * Secret accepted for verification, with the key id reported on success
+ */
+export interface ActiveSecret {
+  secret: string;
+  keyId: string | undefined;
+}
+
+/**
+ * Resolve the configured secret(s) into the list of secrets still active
+ * A plain string has no key id; list entries default to their position in the list.
+ * Secrets past their notAfter date (or with an unparseable one) are dropped
+ */
+export function getActiveSecrets(
+  input: WebhookSecret | undefined,
+  now: number = Date.now()
+): ActiveSecret[] {
+  if (input === undefined || input === '') {
+    return [];
+  }
+  if (typeof input === 'string') {
+    return [{ secret: input, keyId: undefined }];
+  }
+
+  const entries = Array.isArray(input) ? input : [input];
+  const secrets: ActiveSecret[] = [];
+  entries.forEach((entry, index) => {
+    const { secret, keyId, notAfter }: WebhookSecretEntry =
+      typeof entry === 'string' ? { secret: entry } : entry;
+    if (secret && !isExpired(notAfter, now)) {
+      secrets.push({ secret, keyId: keyId ?? String(index) });
+    }
+  });
+  return secrets;
+}
+
+/**
+ * Whether a notAfter date has passed
+ */
+function isExpired(notAfter: Date | string | undefined, now: number): boolean {
+  if (notAfter === undefined) {
+    return false;
+  }
+  const expiresAt = new Date(notAfter).getTime();
+  return !(expiresAt >= now);
+}
+
+/**
+ * Read the configured secret(s), calling the resolver when one is configured
+ */
+export async function resolveSecret(
+  config: WebhookSecretConfig | undefined,
+  request: FastifyRequest,
+  provider: WebhookProvider
+): Promise<WebhookSecret | undefined> {
+  return typeof config === 'function' ? config(request, provider) : config;
+}
+
+/**
+ * Create a secret resolver with a TTL cache
+ * Missing secrets are cached for negativeTtl; failed lookups are not cached.
+ * Concurrent requests for the same key share one lookup
+ */
+export function createSecretResolver(options: SecretResolverOptions): WebhookSecretResolver {
+  const { resolve, cacheKey, ttl = 300, negativeTtl = 60, maxEntries = 1000 } = options;
+  const cache = new Map<string, CachedSecret>();
+
+  return async (request, provider) => {
+    const key = cacheKey(request, provider);
+    if (key === undefined) {
+      return resolve(request, provider);
+    }
+
+    const cacheId = `${provider}:${key}`;
+    const now = Date.now();
+    const cached = cache.get(cacheId);
+    if (cached && cached.expiresAt > now) {
+      return cached.secret;
+    }
+
+    // Entries are in insertion order: evict the oldest when full
+    cache.delete(cacheId);
+    if (cache.size >= maxEntries) {
+      const [oldest] = cache.keys();
+      if (oldest !== undefined) {
+        cache.delete(oldest);
+      }
+    }
+
+    const entry: CachedSecret = {
+      secret: Promise.resolve(resolve(request, provider)),
+      // In-flight lookups are shared until they settle
+      expiresAt: Infinity,
+    };
+    cache.set(cacheId, entry);
+
+    try {
+      const secret = await entry.secret;
+      const found = getActiveSecrets(secret).length > 0;
+      entry.expiresAt = Date.now() + (found ? ttl : negativeTtl) * 1000;
+      return secret;
+    } catch (err) {
+      if (cache.get(cacheId) === entry) {
+        cache.delete(cacheId);
+      }
+      throw err;
+    }
+  };
+}
+
+/**
+ * Loggable form of a secret: a short SHA-256 fingerprint, never the value
+ */
+export function redactSecret(secret: string): string {
+  return `sha256:${createHash('sha256').update(secret).digest('hex').slice(0, 8)}`;
+}
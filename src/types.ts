@@ -1,9 +1,50 @@
-import type { FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
+import type { IncomingHttpHeaders } from 'http';
+import type { JsonWebKey } from 'crypto';
+import type {
+  FastifyRequest,
+  FastifyReply,
+  preHandlerHookHandler,
+  RouteHandlerMethod,
+} from 'fastify';
+import type { ProviderDefinition } from './providers/index.js';
+
+/**
+ * Names of providers registered with customProviders or fastify.webhookProviders
+ * Extend it with declaration merging so registered names are valid `provider` values:
+ * `declare module 'fastify-webhook-verify' { interface CustomWebhookProviders { acme: true } }`
+ */
+export interface CustomWebhookProviders {}
+
+/**
+ * Built-in provider names, plus the registered ones
+ */
+interface WebhookProviderNames extends CustomWebhookProviders {
+  stripe: true;
+  github: true;
+  twilio: true;
+  slack: true;
+  shopify: true;
+  'standard-webhooks': true;
+  discord: true;
+  sendgrid: true;
+  paddle: true;
+  linear: true;
+  gitlab: true;
+  meta: true;
+  twitch: true;
+  zoom: true;
+  sns: true;
+  jwt: true;
+  hubspot: true;
+  mailgun: true;
+  square: true;
+  custom: true;
+}
 
 /**
  * Supported webhook providers
  */
-export type WebhookProvider = 'stripe' | 'github' | 'twilio' | 'slack' | 'shopify' | 'custom';
+export type WebhookProvider = Extract<keyof WebhookProviderNames, string>;
 
 /**
  * Custom provider configuration
@@ -11,10 +52,16 @@ export type WebhookProvider = 'stripe' | 'github' | 'twilio' | 'slack' | 'shopif
 export interface CustomProviderConfig {
   /** Provider name for logging */
   name: string;
-  /** Header containing the signature */
-  signatureHeader: string;
+  /** Header containing the signature (required unless signatureField is set) */
+  signatureHeader?: string;
+  /** Body field containing the signature, when there is no signature header (optional) */
+  signatureField?: string;
   /** Header containing the timestamp (optional) */
   timestampHeader?: string;
+  /** Body field containing the timestamp, when there is no timestamp header (optional) */
+  timestampField?: string;
+  /** Timestamp format: unix seconds, unix milliseconds or ISO 8601 (default: 'unix') */
+  timestampFormat?: 'unix' | 'unix-ms' | 'iso8601';
   /** HMAC algorithm */
   algorithm: 'sha1' | 'sha256' | 'sha512';
   /** Function to extract signature from header value */
@@ -25,6 +72,223 @@ export interface CustomProviderConfig {
   signatureEncoding?: 'hex' | 'base64';
 }
 
+/**
+ * Amazon SNS HTTP(S) message
+ */
+export interface SnsMessage {
+  Type: 'Notification' | 'SubscriptionConfirmation' | 'UnsubscribeConfirmation';
+  MessageId: string;
+  TopicArn: string;
+  Message: string;
+  Timestamp: string;
+  SignatureVersion: string;
+  Signature: string;
+  SigningCertURL: string;
+  Subject?: string;
+  Token?: string;
+  SubscribeURL?: string;
+  UnsubscribeURL?: string;
+}
+
+/**
+ * Cache for SNS signing certificates (PEM), keyed by certificate URL
+ */
+export interface SnsCertificateCache {
+  /** Get a cached certificate */
+  get(url: string): Promise<string | undefined>;
+  /** Cache a certificate */
+  set(url: string, certificate: string): Promise<void>;
+}
+
+/**
+ * Amazon SNS provider options
+ */
+export interface SnsProviderOptions {
+  /** Download a signing certificate (PEM); defaults to an HTTPS GET with a 5 second timeout */
+  fetchCertificate?: (url: string) => Promise<string>;
+  /** Certificate cache (default: shared in-memory cache) */
+  certificateCache?: SnsCertificateCache;
+  /** Accepted topic ARNs (default: any topic) */
+  topicArns?: string[];
+  /**
+   * Confirm SubscriptionConfirmation messages and answer them automatically.
+   * `true` visits SubscribeURL; a function is called with the verified message.
+   * @default false (the message is passed to the route handler)
+   */
+  confirmSubscription?: boolean | ((message: SnsMessage) => void | Promise<void>);
+}
+
+/**
+ * JWT signature algorithms accepted by the jwt provider
+ */
+export type JwtAlgorithm = 'RS256' | 'ES256' | 'EdDSA';
+
+/**
+ * JSON Web Key Set
+ */
+export interface JsonWebKeySet {
+  keys: JsonWebKey[];
+}
+
+/**
+ * JWT / OIDC bearer token provider options
+ */
+export interface JwtProviderOptions {
+  /** Static key set */
+  jwks?: JsonWebKeySet;
+  /** Key set URL (e.g. https://www.googleapis.com/oauth2/v3/certs) */
+  jwksUri?: string;
+  /** Load the key set; defaults to an HTTPS GET of jwksUri */
+  loadJwks?: () => Promise<JsonWebKeySet>;
+  /**
+   * Seconds a loaded key set is cached
+   * @default 3600
+   */
+  jwksCacheTtl?: number;
+  /** Accepted `iss` values */
+  issuer?: string | string[];
+  /** Accepted `aud` values (required: identity providers issue tokens for any audience) */
+  audience?: string | string[];
+  /** Accepted `email` claims (e.g. the push subscription service account) */
+  email?: string | string[];
+  /**
+   * Accepted signature algorithms
+   * @default ['RS256', 'ES256', 'EdDSA']
+   */
+  algorithms?: JwtAlgorithm[];
+  /**
+   * Clock skew allowed when checking `exp` and `nbf`, in seconds
+   * @default 0
+   */
+  clockTolerance?: number;
+  /**
+   * Reject a second request with the same `jti` claim within the replay tolerance.
+   * Only for senders issuing one token per delivery: senders that cache their token
+   * reuse its `jti`
+   * @default false
+   */
+  jtiNonce?: boolean;
+}
+
+/**
+ * HubSpot provider options
+ */
+export interface HubSpotProviderOptions {
+  /**
+   * Also accept v1 / v2 signatures (X-HubSpot-Signature), which carry no timestamp
+   * @default false
+   */
+  allowLegacySignatures?: boolean;
+}
+
+/**
+ * Square provider options
+ */
+export interface SquareProviderOptions {
+  /**
+   * Notification URL registered with the subscription
+   * @default the public URL of the request (see the `url` option)
+   */
+  notificationUrl?: string;
+}
+
+/**
+ * GitHub provider options
+ */
+export interface GitHubProviderOptions {
+  /**
+   * Append the body `action` to the event type (e.g. `pull_request.opened`)
+   * @default false
+   */
+  includeAction?: boolean;
+  /**
+   * Answer `ping` events automatically
+   * @default false
+   */
+  answerPing?: boolean;
+  /**
+   * Accept HMAC-SHA1 signatures in X-Hub-Signature when X-Hub-Signature-256 is absent
+   * (GitHub Enterprise Server versions without SHA-256)
+   * @default false
+   */
+  allowSha1?: boolean;
+}
+
+/**
+ * Stripe provider options
+ */
+export interface StripeProviderOptions {
+  /**
+   * Reject requests whose Stripe-Signature header carries `v0` (test scheme) signatures
+   * @default false
+   */
+  rejectV0?: boolean;
+  /**
+   * Required `livemode` of events: `true` rejects test-mode events (production routes),
+   * `false` rejects live-mode events (staging routes)
+   * @default undefined (both accepted)
+   */
+  livemode?: boolean;
+}
+
+/**
+ * Provider-specific options, keyed by provider name
+ */
+export interface ProviderOptions {
+  /** Stripe options */
+  stripe?: StripeProviderOptions;
+  /** Amazon SNS options */
+  sns?: SnsProviderOptions;
+  /** JWT bearer token options */
+  jwt?: JwtProviderOptions;
+  /** HubSpot options */
+  hubspot?: HubSpotProviderOptions;
+  /** Square options */
+  square?: SquareProviderOptions;
+  /** GitHub options */
+  github?: GitHubProviderOptions;
+}
+
+/**
+ * Options used to rebuild the public URL of a webhook request
+ */
+export interface WebhookUrlOptions {
+  /** Trust X-Forwarded-Proto and X-Forwarded-Host headers set by a proxy */
+  trustProxy?: boolean;
+  /** Public host override (e.g. "api.example.com") */
+  host?: string;
+  /** Public protocol override */
+  protocol?: 'http' | 'https';
+}
+
+/**
+ * Request details available to providers during verification
+ */
+export interface WebhookRequestContext {
+  /** HTTP method */
+  method: string;
+  /** Public URL of the request, including the query string */
+  url: string;
+  /** Parsed request body */
+  body: unknown;
+  /** Raw request body (e.g. SNS messages, posted as text/plain JSON) */
+  rawBody?: Buffer;
+  /** Request headers (lowercased names) */
+  headers: IncomingHttpHeaders;
+}
+
+/**
+ * Reply sent by the plugin instead of the route handler
+ */
+export interface WebhookAutoResponse {
+  /** HTTP status code (default: 200) */
+  statusCode?: number;
+  /** Content type (default: inferred from body) */
+  contentType?: string;
+  /** Response body */
+  body: unknown;
+}
+
 /**
  * Replay protection configuration
  */
@@ -45,6 +309,11 @@ export interface ReplayStorage {
   has(nonce: string): Promise<boolean>;
   /** Save a nonce */
   set(nonce: string, expiresAt: number): Promise<void>;
+  /**
+   * Remove a nonce, so a delivery that failed in the route (5xx) can be retried with the
+   * same delivery id. Without it, such retries are rejected as replays
+   */
+  delete?(nonce: string): Promise<void>;
   /** Remove expired nonces */
   cleanup?(): Promise<void>;
 }
@@ -63,6 +332,8 @@ export interface WebhookVerificationResult {
   error?: string;
   /** Event type (if available from provider) */
   eventType: string | undefined;
+  /** Key id of the secret that verified the request (when several secrets are configured) */
+  keyId?: string;
 }
 
 /**
@@ -82,18 +353,199 @@ export type WebhookErrorHandler = (
   reply: FastifyReply
 ) => void | Promise<void>;
 
+/**
+ * Secret with rotation settings
+ */
+export interface WebhookSecretEntry {
+  /** Secret value (public key for public-key providers) */
+  secret: string;
+  /** Id reported in `request.webhook.keyId` (default: position in the list) */
+  keyId?: string;
+  /** Stop accepting the secret after this date (Date or ISO 8601 string) */
+  notAfter?: Date | string;
+}
+
+/**
+ * Provider secret: a single secret, or an ordered list of secrets accepted during rotation
+ */
+export type WebhookSecret = string | WebhookSecretEntry | (string | WebhookSecretEntry)[];
+
+/**
+ * Per-request secret lookup (e.g. one secret per tenant, read from a database)
+ * Runs before verification: anything read from the request is not yet trusted
+ */
+export type WebhookSecretResolver = (
+  request: FastifyRequest,
+  provider: WebhookProvider
+) => WebhookSecret | undefined | Promise<WebhookSecret | undefined>;
+
+/**
+ * Configured secret: static secret(s) or a per-request resolver
+ */
+export type WebhookSecretConfig = WebhookSecret | WebhookSecretResolver;
+
+/**
+ * Source of provider secrets (environment, mounted files, a key management service, ...)
+ */
+export interface SecretStore {
+  /** Secret(s) of a provider, optionally for one tenant; undefined when not configured */
+  get(
+    provider: string,
+    tenant?: string
+  ): WebhookSecret | undefined | Promise<WebhookSecret | undefined>;
+  /**
+   * Listen for secret changes (provider undefined: any provider may have changed)
+   * Returns a function removing the listener
+   */
+  subscribe?(listener: (provider: string | undefined) => void): () => void;
+  /** Release resources such as file watchers; called when fastify closes */
+  close?(): void | Promise<void>;
+}
+
+/**
+ * Options for createEnvSecretStore
+ */
+export interface EnvSecretStoreOptions {
+  /**
+   * Variable name prefix; the provider name follows in upper case
+   * (e.g. WEBHOOK_SECRET_STANDARD_WEBHOOKS, WEBHOOK_SECRET_SHOPIFY__TENANT for a tenant)
+   * @default 'WEBHOOK_SECRET_'
+   */
+  prefix?: string;
+  /**
+   * Variables to read
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Options for createFileSecretStore
+ */
+export interface FileSecretStoreOptions {
+  /**
+   * Directory with one file per provider (e.g. `stripe`, or `shopify.<tenant>` for a tenant),
+   * such as a mounted Kubernetes secret
+   */
+  directory: string;
+  /**
+   * Reload files when the directory changes
+   * @default true
+   */
+  watch?: boolean;
+  /**
+   * Seconds a missing file is cached
+   * @default 60
+   */
+  negativeTtl?: number;
+  /**
+   * Maximum number of cached files; the oldest entries are evicted first
+   * @default 1000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Options for createSecretResolver
+ */
+export interface SecretResolverOptions {
+  /** Look up the secret(s) for a request; undefined or an empty list means no secret */
+  resolve: WebhookSecretResolver;
+  /**
+   * Cache key of the request (e.g. shop domain or Connect account)
+   * Requests without a key are resolved every time
+   */
+  cacheKey: (request: FastifyRequest, provider: WebhookProvider) => string | undefined;
+  /**
+   * Seconds a resolved secret is cached
+   * @default 300
+   */
+  ttl?: number;
+  /**
+   * Seconds a missing secret is cached
+   * @default 60
+   */
+  negativeTtl?: number;
+  /**
+   * Maximum number of cached keys; the oldest entries are evicted first
+   * @default 1000
+   */
+  maxEntries?: number;
+}
+
 /**
  * Options for single route
  */
-export interface WebhookRouteOptions {
+export interface WebhookRouteOptions extends ProviderOptions {
   /** Provider for this route */
   provider: WebhookProvider;
-  /** Secret for this provider */
-  secret?: string;
+  /** Secret for this provider (public key for public-key providers such as Discord) */
+  secret?: WebhookSecretConfig;
+  /** Tenant of the request, used to read the secret from the `secretStore` */
+  tenant?: (request: FastifyRequest) => string | undefined;
   /** Custom provider configuration */
   customConfig?: CustomProviderConfig;
   /** Override replay protection */
   replayProtection?: Partial<ReplayProtectionConfig>;
+  /** Override public URL reconstruction */
+  url?: WebhookUrlOptions;
+  /**
+   * Let the provider answer handshakes (e.g. Discord PING) before the route handler
+   * @default true
+   */
+  autoRespond?: boolean;
+}
+
+/**
+ * Options for a subscription handshake (GET) handler
+ */
+export interface WebhookHandshakeOptions {
+  /** Provider for this route */
+  provider: WebhookProvider;
+  /** Verify token configured in the provider dashboard */
+  verifyToken: string;
+}
+
+/**
+ * Shopify query-string signature: OAuth / install callbacks (`hmac`) or app proxy
+ * requests (`signature`)
+ */
+export type ShopifyQueryMode = 'oauth' | 'app-proxy';
+
+/**
+ * Options for a Shopify query signature preHandler
+ */
+export interface ShopifyQueryVerifyOptions {
+  /** Query signature mode */
+  mode: ShopifyQueryMode;
+  /** App secret (default: providers.shopify) */
+  secret?: WebhookSecretConfig;
+  /** Override replay protection (timestamp tolerance) for this route */
+  replayProtection?: Partial<ReplayProtectionConfig>;
+}
+
+/**
+ * Data attached to the request after a Shopify query signature is verified
+ */
+export interface ShopifyQueryData {
+  /** Whether the query signature was verified */
+  verified: boolean;
+  /** Query signature mode */
+  mode: ShopifyQueryMode;
+  /** Shop domain (e.g. example.myshopify.com) */
+  shop: string;
+  /** Timestamp parameter */
+  timestamp: Date | undefined;
+  /** Key id of the secret that verified the query (when several secrets are configured) */
+  keyId?: string;
+}
+
+/**
+ * Options for a webhook endpoint registered with webhookRoute
+ */
+export interface WebhookEndpointOptions extends WebhookRouteOptions {
+  /** Verify token; when set, a GET handshake route is registered on the same path */
+  verifyToken?: string;
 }
 
 /**
@@ -101,15 +553,35 @@ export interface WebhookRouteOptions {
  */
 export interface FastifyWebhookVerifyOptions {
   /**
-   * Provider configuration (secret per provider)
+   * Provider configuration (secret, list of rotating secrets or resolver, per provider)
    */
   providers?: {
-    stripe?: string;
-    github?: string;
-    twilio?: string;
-    slack?: string;
-    shopify?: string;
-    [key: string]: string | undefined;
+    stripe?: WebhookSecretConfig;
+    github?: WebhookSecretConfig;
+    twilio?: WebhookSecretConfig;
+    slack?: WebhookSecretConfig;
+    shopify?: WebhookSecretConfig;
+    'standard-webhooks'?: WebhookSecretConfig;
+    /** Application public key (hex) */
+    discord?: WebhookSecretConfig;
+    /** Verification public key (base64 DER or PEM) */
+    sendgrid?: WebhookSecretConfig;
+    paddle?: WebhookSecretConfig;
+    linear?: WebhookSecretConfig;
+    /** Secret token sent in X-Gitlab-Token */
+    gitlab?: WebhookSecretConfig;
+    /** App secret */
+    meta?: WebhookSecretConfig;
+    twitch?: WebhookSecretConfig;
+    /** Secret token */
+    zoom?: WebhookSecretConfig;
+    /** App client secret */
+    hubspot?: WebhookSecretConfig;
+    /** HTTP webhook signing key */
+    mailgun?: WebhookSecretConfig;
+    /** Subscription signature key */
+    square?: WebhookSecretConfig;
+    [key: string]: WebhookSecretConfig | undefined;
   };
 
   /**
@@ -118,6 +590,11 @@ export interface FastifyWebhookVerifyOptions {
    */
   replayProtection?: ReplayProtectionConfig;
 
+  /**
+   * Public URL reconstruction for providers that sign the request URL (e.g. Twilio)
+   */
+  url?: WebhookUrlOptions;
+
   /**
    * Custom error handler
    */
@@ -128,6 +605,32 @@ export interface FastifyWebhookVerifyOptions {
    */
   onVerify?: WebhookVerifyHook;
 
+  /**
+   * Named providers to register, usable as `provider` on the routes of this instance
+   */
+  customProviders?: Record<string, ProviderDefinition>;
+
+  /**
+   * Secret source read when neither the route nor `providers` configure a secret
+   */
+  secretStore?: SecretStore;
+
+  /**
+   * Check on startup (onReady) that every webhook route has a secret: `'warn'` logs the
+   * providers without secret, `'throw'` fails startup, `false` skips the check.
+   * Routes with a resolver or a tenant are not checked
+   * @default 'warn'
+   */
+  secretCheck?: 'warn' | 'throw' | false;
+
+  /**
+   * Parse `application/x-www-form-urlencoded` bodies (Twilio, Slack) into an object.
+   * Leave it off when the app registers its own form parser (e.g. `@fastify/formbody`);
+   * the raw body of form requests is recorded either way
+   * @default false
+   */
+  formBody?: boolean;
+
   /**
    * If true, log verification attempts
    * @default false
@@ -135,6 +638,24 @@ export interface FastifyWebhookVerifyOptions {
   logAttempts?: boolean;
 }
 
+/**
+ * Provider delivery metadata (only the values present in the request)
+ * Header values are strings; flags read from the body keep their type (e.g. Stripe `livemode`)
+ */
+export type WebhookMetadata = Record<string, string | boolean>;
+
+/**
+ * Named provider registry, available as fastify.webhookProviders
+ */
+export interface WebhookProviders {
+  /** Register a named provider; built-in and already registered names are refused */
+  register(name: string, definition: ProviderDefinition): void;
+  /** Whether a provider name is built in or registered */
+  has(name: string): boolean;
+  /** Names of the registered (non built-in) providers */
+  list(): string[];
+}
+
 /**
  * Webhook data available in request
  */
@@ -149,6 +670,14 @@ export interface WebhookData {
   rawBody: Buffer;
   /** Event type (if available) */
   eventType: string | undefined;
+  /** Decoded token claims (jwt provider) */
+  claims?: Record<string, unknown>;
+  /** Provider delivery metadata, usually read from headers (e.g. Shopify topic and shop) */
+  metadata?: WebhookMetadata;
+  /** Payload decoded from the body (e.g. Slack interactive `payload` field) */
+  payload?: unknown;
+  /** Key id of the secret that verified the request (when several secrets are configured) */
+  keyId?: string;
 }
 
 declare module 'fastify' {
@@ -157,6 +686,31 @@ declare module 'fastify' {
      * PreHandler to verify webhooks
      */
     webhookVerify: (options: WebhookRouteOptions) => preHandlerHookHandler;
+
+    /**
+     * Route handler answering subscription handshakes (e.g. Meta hub.challenge)
+     */
+    webhookHandshake: (options: WebhookHandshakeOptions) => RouteHandlerMethod;
+
+    /**
+     * PreHandler to verify Shopify OAuth callback and app proxy query signatures
+     */
+    shopifyVerify: (options: ShopifyQueryVerifyOptions) => preHandlerHookHandler;
+
+    /**
+     * Register a webhook endpoint: verified POST deliveries, plus the GET
+     * handshake when a verify token is given
+     */
+    webhookRoute: (
+      path: string,
+      options: WebhookEndpointOptions,
+      handler: RouteHandlerMethod
+    ) => void;
+
+    /**
+     * Named provider registry
+     */
+    webhookProviders: WebhookProviders;
   }
 
   interface FastifyRequest {
@@ -165,6 +719,11 @@ declare module 'fastify' {
      */
     webhook?: WebhookData;
 
+    /**
+     * Verified Shopify query data (available after shopifyVerify)
+     */
+    shopifyQuery?: ShopifyQueryData;
+
     /**
      * Raw body of the request
      */
@@ -1,4 +1,13 @@
-import { timingSafeEqual } from 'crypto';
+import {
+  createHash,
+  createPublicKey,
+  createSecretKey,
+  timingSafeEqual,
+  type KeyObject,
+} from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { FastifyRequest } from 'fastify';
+import type { WebhookUrlOptions } from './types.js';
 
 /**
  * Compare two strings in a timing-safe manner
@@ -18,3 +27,135 @@ export function timingSafeCompare(a: string, b: string, encoding: 'hex' | 'base6
     return false;
   }
 }
+
+/**
+ * Compare two plain tokens in constant time
+ * Both tokens are hashed first so their lengths are not leaked
+ */
+export function timingSafeTokenCompare(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest();
+  const hashB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Read a single-valued header
+ * Returns undefined when the header is missing, empty or repeated
+ */
+export function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Read a top-level field from a parsed body
+ */
+export function getBodyField(body: unknown, field: string): unknown {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return undefined;
+  }
+  return (body as Record<string, unknown>)[field];
+}
+
+/**
+ * Return the first value of a header that may be repeated or comma-separated
+ */
+function firstHeaderValue(value: string | string[] | undefined): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const first = raw?.split(',')[0]?.trim();
+  return first === '' ? undefined : first;
+}
+
+/**
+ * Rebuild the public URL of a request (protocol, host, path and query)
+ */
+export function buildRequestUrl(request: FastifyRequest, options: WebhookUrlOptions = {}): string {
+  const { trustProxy = false } = options;
+
+  const protocol =
+    options.protocol ??
+    (trustProxy ? firstHeaderValue(request.headers['x-forwarded-proto']) : undefined) ??
+    request.protocol;
+  const host =
+    options.host ??
+    (trustProxy ? firstHeaderValue(request.headers['x-forwarded-host']) : undefined) ??
+    request.host;
+
+  return `${protocol}://${host}${request.url}`;
+}
+
+/**
+ * Parse an application/x-www-form-urlencoded body
+ * Repeated keys are collected into arrays
+ */
+export function parseFormBody(body: Buffer): Record<string, string | string[]> {
+  const params: Record<string, string | string[]> = {};
+  for (const [key, value] of new URLSearchParams(body.toString())) {
+    const existing = params[key];
+    if (existing === undefined) {
+      params[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      params[key] = [existing, value];
+    }
+  }
+  return params;
+}
+
+/**
+ * DER prefix turning a raw 32-byte Ed25519 key into an SPKI structure
+ */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Parse a public key given as PEM, base64 DER (SPKI) or raw hex Ed25519 key
+ */
+export function parsePublicKey(key: string): KeyObject {
+  const trimmed = key.trim();
+  if (trimmed.startsWith('-----BEGIN')) {
+    return createPublicKey(trimmed);
+  }
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) {
+    const der = Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(trimmed, 'hex')]);
+    return createPublicKey({ key: der, format: 'der', type: 'spki' });
+  }
+  return createPublicKey({ key: Buffer.from(trimmed, 'base64'), format: 'der', type: 'spki' });
+}
+
+/**
+ * Memoize keys derived from secret strings, so each secret is imported once
+ * The cache is bounded: the oldest entries are evicted first
+ */
+export function createKeyCache<T>(
+  create: (secret: string) => T,
+  maxEntries = 1000
+): (secret: string) => T {
+  const cache = new Map<string, T>();
+  return (secret) => {
+    let key = cache.get(secret);
+    if (key === undefined) {
+      key = create(secret);
+      if (cache.size >= maxEntries) {
+        const [oldest] = cache.keys();
+        if (oldest !== undefined) {
+          cache.delete(oldest);
+        }
+      }
+      cache.set(secret, key);
+    }
+    return key;
+  };
+}
+
+/**
+ * HMAC key of a secret (UTF-8 bytes)
+ */
+export const getSecretKey: (secret: string) => KeyObject = createKeyCache((secret) =>
+  createSecretKey(Buffer.from(secret))
+);
+
+/**
+ * Parsed public key (see parsePublicKey)
+ */
+export const getPublicKey: (key: string) => KeyObject = createKeyCache(parsePublicKey);
@@ -1,10 +1,50 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createHmac } from 'crypto';
 import Fastify, { type FastifyInstance } from 'fastify';
-import webhookVerify from '../src/index.js';
+import webhookVerify, {
+  BaseProvider,
+  CustomProvider,
+  createProviderRegistry,
+  getProvider,
+  type WebhookVerificationResult,
+} from '../src/index.js';
+import { getCurrentTimestamp } from './helpers.js';
 
 const CUSTOM_SECRET = 'custom_webhook_secret';
 
+declare module '../src/types.js' {
+  interface CustomWebhookProviders {
+    acme: true;
+    'acme-v2': true;
+  }
+}
+
+let acmeV2Instances = 0;
+
+/**
+ * Provider class registered by name
+ */
+class AcmeV2Provider extends BaseProvider {
+  constructor() {
+    acmeV2Instances++;
+    super({
+      name: 'acme-v2',
+      signatureHeader: 'x-acme-signature',
+      timestampHeader: undefined,
+      algorithm: 'sha512',
+      signatureEncoding: 'base64',
+    });
+  }
+
+  extractSignature(headerValue: string): string {
+    return headerValue.replace(/^v2=/, '');
+  }
+
+  computeSignature(rawBody: Buffer, secret: string): string {
+    return this.createHmac(rawBody.toString(), secret);
+  }
+}
+
 function createCustomSignature(payload: string, secret: string, timestamp: number): string {
   const baseString = `${timestamp}.${payload}`;
   return createHmac('sha256', secret).update(baseString).digest('hex');
@@ -202,4 +242,300 @@ describe('Custom Provider', () => {
       expect(response.json()).toEqual({ verified: true });
     });
   });
+
+  describe('body timestamp', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        replayProtection: { enabled: true, tolerance: 60 },
+      });
+
+      fastify.post(
+        '/webhook/body-timestamp',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'custom',
+            secret: CUSTOM_SECRET,
+            customConfig: {
+              name: 'body-timestamp-service',
+              signatureHeader: 'X-Body-Signature',
+              timestampField: 'sentAt',
+              timestampFormat: 'unix-ms',
+              algorithm: 'sha256',
+            },
+          }),
+        },
+        async (request) => ({
+          timestamp: request.webhook?.timestamp?.getTime(),
+        })
+      );
+    });
+
+    const send = (sentAt: number) => {
+      const payload = JSON.stringify({ event: 'ping', sentAt });
+      return fastify.inject({
+        method: 'POST',
+        url: '/webhook/body-timestamp',
+        headers: {
+          'content-type': 'application/json',
+          'x-body-signature': createHmac('sha256', CUSTOM_SECRET).update(payload).digest('hex'),
+        },
+        payload,
+      });
+    };
+
+    it('should read millisecond timestamp from body', async () => {
+      const sentAt = Date.now();
+      const response = await send(sentAt);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ timestamp: sentAt });
+    });
+
+    it('should reject stale body timestamp', async () => {
+      const response = await send(Date.now() - 120_000);
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('body signature', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify);
+
+      fastify.post(
+        '/webhook/body-signature',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'custom',
+            secret: CUSTOM_SECRET,
+            customConfig: {
+              name: 'body-signature-service',
+              signatureField: 'sig',
+              timestampField: 'ts',
+              algorithm: 'sha256',
+              buildPayload: (_rawBody, timestamp) => `ts:${String(timestamp)}`,
+            },
+          }),
+        },
+        async (request) => ({ verified: request.webhook?.verified })
+      );
+    });
+
+    const send = (ts: number, sig: string) =>
+      fastify.inject({
+        method: 'POST',
+        url: '/webhook/body-signature',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({ ts, sig }),
+      });
+
+    it('should read the signature from the body', async () => {
+      const ts = getCurrentTimestamp();
+      const sig = createHmac('sha256', CUSTOM_SECRET)
+        .update(`ts:${String(ts)}`)
+        .digest('hex');
+      const response = await send(ts, sig);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ verified: true });
+    });
+
+    it('should reject a missing body signature', async () => {
+      const response = await send(getCurrentTimestamp(), '');
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'MISSING_SIGNATURE' });
+    });
+
+    it('should require a signature header or field', () => {
+      expect(() => new CustomProvider({ name: 'invalid', algorithm: 'sha256' })).toThrow(
+        'Custom provider requires signatureHeader or signatureField'
+      );
+    });
+  });
+
+  describe('registered providers', () => {
+    let verified: WebhookVerificationResult | undefined;
+
+    beforeEach(async () => {
+      verified = undefined;
+      await fastify.register(webhookVerify, {
+        providers: { acme: CUSTOM_SECRET, 'acme-v2': CUSTOM_SECRET },
+        customProviders: {
+          acme: {
+            signatureHeader: 'X-Acme-Signature',
+            timestampHeader: 'X-Acme-Timestamp',
+            algorithm: 'sha256',
+            buildPayload: (body, ts) => `${String(ts)}.${body.toString()}`,
+          },
+        },
+        onVerify: (result) => {
+          verified = result;
+        },
+      });
+      fastify.webhookProviders.register('acme-v2', AcmeV2Provider);
+
+      fastify.post(
+        '/webhook/acme',
+        { preHandler: fastify.webhookVerify({ provider: 'acme' }) },
+        async (request) => ({ provider: request.webhook?.provider })
+      );
+      fastify.post(
+        '/webhook/acme-v2',
+        { preHandler: fastify.webhookVerify({ provider: 'acme-v2' }) },
+        async (request) => ({ provider: request.webhook?.provider })
+      );
+    });
+
+    it('should verify with a registered configuration and report its name', async () => {
+      const payload = JSON.stringify({ event: 'order.created' });
+      const timestamp = getCurrentTimestamp();
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/acme',
+        headers: {
+          'content-type': 'application/json',
+          'x-acme-signature': createCustomSignature(payload, CUSTOM_SECRET, timestamp),
+          'x-acme-timestamp': String(timestamp),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ provider: 'acme' });
+      expect(verified?.provider).toBe('acme');
+    });
+
+    it('should verify with a registered provider class', async () => {
+      const payload = JSON.stringify({ event: 'order.created' });
+      const signature = createHmac('sha512', CUSTOM_SECRET).update(payload).digest('base64');
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/acme-v2',
+        headers: { 'content-type': 'application/json', 'x-acme-signature': `v2=${signature}` },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ provider: 'acme-v2' });
+    });
+
+    it('should not create providers per request', async () => {
+      const payload = JSON.stringify({ event: 'order.created' });
+      const signature = createHmac('sha512', CUSTOM_SECRET).update(payload).digest('base64');
+      await fastify.ready();
+      const created = acmeV2Instances;
+
+      for (let i = 0; i < 3; i++) {
+        const response = await fastify.inject({
+          method: 'POST',
+          url: '/webhook/acme-v2',
+          headers: { 'content-type': 'application/json', 'x-acme-signature': `v2=${signature}` },
+          payload,
+        });
+        expect(response.statusCode).toBe(200);
+      }
+
+      expect(acmeV2Instances).toBe(created);
+    });
+
+    it('should report the registered name in errors', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/acme',
+        headers: { 'content-type': 'application/json' },
+        payload: '{}',
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({
+        message: 'Missing webhook signature header for acme',
+      });
+    });
+
+    it('should list registered providers', () => {
+      expect(fastify.webhookProviders.has('acme')).toBe(true);
+      expect(fastify.webhookProviders.has('stripe')).toBe(true);
+      expect(fastify.webhookProviders.has('unknown')).toBe(false);
+      expect(fastify.webhookProviders.list()).toEqual(expect.arrayContaining(['acme', 'acme-v2']));
+    });
+
+    it('should create registered providers through the registry', () => {
+      const registry = createProviderRegistry({ acme: { signatureHeader: 'X-Acme-Signature' } });
+
+      expect(getProvider('acme', undefined, {}, registry).name).toBe('acme');
+      expect(() => getProvider('acme')).toThrow('Unknown webhook provider');
+    });
+
+    it('should refuse built-in and invalid names', () => {
+      const { register } = fastify.webhookProviders;
+
+      expect(() => register('stripe', AcmeV2Provider)).toThrow(
+        'Cannot register built-in provider: stripe'
+      );
+      expect(() => register('custom', AcmeV2Provider)).toThrow(
+        'Cannot register built-in provider: custom'
+      );
+      expect(() => register('__proto__', AcmeV2Provider)).toThrow(
+        'Invalid provider name: __proto__'
+      );
+    });
+
+    it('should refuse names registered twice', () => {
+      expect(() => fastify.webhookProviders.register('acme', AcmeV2Provider)).toThrow(
+        'Provider already registered: acme'
+      );
+    });
+
+    it('should validate configurations at registration', () => {
+      expect(() => fastify.webhookProviders.register('broken', { algorithm: 'sha256' })).toThrow(
+        'Custom provider requires signatureHeader or signatureField'
+      );
+      expect(fastify.webhookProviders.has('broken')).toBe(false);
+    });
+  });
+
+  describe('registries per instance', () => {
+    let other: FastifyInstance;
+
+    beforeEach(async () => {
+      other = Fastify({ logger: false });
+      for (const [app, header] of [
+        [fastify, 'X-Acme-Signature'],
+        [other, 'X-Acme-Other-Signature'],
+      ] as const) {
+        await app.register(webhookVerify, {
+          providers: { acme: CUSTOM_SECRET },
+          customProviders: { acme: { signatureHeader: header, algorithm: 'sha256' } },
+        });
+        app.post(
+          '/webhook/acme',
+          { preHandler: app.webhookVerify({ provider: 'acme' }) },
+          async () => ({ ok: true })
+        );
+      }
+    });
+
+    afterEach(async () => {
+      await other.close();
+    });
+
+    it('should keep the definitions of each instance', async () => {
+      const payload = JSON.stringify({ event: 'order.created' });
+      const signature = createHmac('sha256', CUSTOM_SECRET).update(payload).digest('hex');
+      const send = (app: FastifyInstance, header: string) =>
+        app.inject({
+          method: 'POST',
+          url: '/webhook/acme',
+          headers: { 'content-type': 'application/json', [header]: signature },
+          payload,
+        });
+
+      expect((await send(fastify, 'x-acme-signature')).statusCode).toBe(200);
+      expect((await send(other, 'x-acme-other-signature')).statusCode).toBe(200);
+      expect((await send(fastify, 'x-acme-other-signature')).statusCode).toBe(401);
+    });
+  });
 });
@@ -8,6 +8,9 @@ import {
   MissingRawBodyError,
   UnknownProviderError,
   MissingSecretError,
+  InvalidVerifyTokenError,
+  LivemodeMismatchError,
+  KeyUnavailableError,
 } from '../src/errors.js';
 
 describe('Error Classes', () => {
@@ -116,6 +119,42 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('InvalidVerifyTokenError', () => {
+    it('should create with provider name', () => {
+      const error = new InvalidVerifyTokenError('meta');
+
+      expect(error.name).toBe('InvalidVerifyTokenError');
+      expect(error.code).toBe('INVALID_VERIFY_TOKEN');
+      expect(error.message).toContain('meta');
+      expect(error.statusCode).toBe(403);
+      expect(error.provider).toBe('meta');
+    });
+  });
+
+  describe('LivemodeMismatchError', () => {
+    it('should describe the unexpected mode', () => {
+      const error = new LivemodeMismatchError('stripe', false);
+
+      expect(error.name).toBe('LivemodeMismatchError');
+      expect(error.code).toBe('LIVEMODE_MISMATCH');
+      expect(error.message).toBe('Unexpected test-mode webhook for stripe');
+      expect(error.statusCode).toBe(403);
+      expect(error.provider).toBe('stripe');
+    });
+  });
+
+  describe('KeyUnavailableError', () => {
+    it('should be retryable', () => {
+      const error = new KeyUnavailableError('jwt');
+
+      expect(error.name).toBe('KeyUnavailableError');
+      expect(error.code).toBe('KEY_UNAVAILABLE');
+      expect(error.message).toContain('jwt');
+      expect(error.statusCode).toBe(503);
+      expect(error.provider).toBe('jwt');
+    });
+  });
+
   describe('instanceof checks', () => {
     it('all errors should be instances of WebhookError', () => {
       expect(new MissingSignatureError('test')).toBeInstanceOf(WebhookError);
@@ -125,6 +164,8 @@ describe('Error Classes', () => {
       expect(new MissingRawBodyError()).toBeInstanceOf(WebhookError);
       expect(new UnknownProviderError('test')).toBeInstanceOf(WebhookError);
       expect(new MissingSecretError('test')).toBeInstanceOf(WebhookError);
+      expect(new InvalidVerifyTokenError('test')).toBeInstanceOf(WebhookError);
+      expect(new LivemodeMismatchError('test', true)).toBeInstanceOf(WebhookError);
     });
 
     it('all errors should be instances of Error', () => {
@@ -1,4 +1,4 @@
-import { createHmac } from 'crypto';
+import { createHmac, generateKeyPairSync, sign, type JsonWebKey, type KeyObject } from 'crypto';
 
 /**
  * Create a Stripe webhook signature
@@ -35,8 +35,16 @@ export function createShopifySignature(payload: string, secret: string): string
 
 /**
  * Create a Twilio webhook signature
+ * Payload: URL followed by sorted name/value pairs
  */
-export function createTwilioSignature(payload: string, secret: string): string {
+export function createTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  secret: string
+): string {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
   return createHmac('sha1', secret).update(payload).digest('base64');
 }
 
@@ -53,3 +61,236 @@ export function getCurrentTimestamp(): number {
 export function getExpiredTimestamp(): number {
   return Math.floor(Date.now() / 1000) - 600;
 }
+
+/**
+ * Create a Standard Webhooks (Svix) signature header entry
+ */
+export function createStandardWebhooksSignature(
+  id: string,
+  payload: string,
+  secret: string,
+  timestamp: number
+): string {
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const signature = createHmac('sha256', key)
+    .update(`${id}.${timestamp}.${payload}`)
+    .digest('base64');
+  return `v1,${signature}`;
+}
+
+/**
+ * Generate a Discord-style Ed25519 key pair (public key as raw hex)
+ */
+export function createEd25519KeyPair(): { publicKey: string; privateKey: KeyObject } {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const der = publicKey.export({ format: 'der', type: 'spki' });
+  return { publicKey: der.subarray(-32).toString('hex'), privateKey };
+}
+
+/**
+ * Create a Discord interaction signature
+ */
+export function createDiscordSignature(
+  payload: string,
+  privateKey: KeyObject,
+  timestamp: number
+): string {
+  return sign(null, Buffer.from(`${timestamp}${payload}`), privateKey).toString('hex');
+}
+
+/**
+ * Generate a SendGrid-style ECDSA P-256 key pair (public key as base64 DER)
+ */
+export function createEcdsaKeyPair(): { publicKey: string; privateKey: KeyObject } {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const der = publicKey.export({ format: 'der', type: 'spki' });
+  return { publicKey: der.toString('base64'), privateKey };
+}
+
+/**
+ * Create a SendGrid Event Webhook signature
+ */
+export function createSendGridSignature(
+  payload: string,
+  privateKey: KeyObject,
+  timestamp: number
+): string {
+  return sign('sha256', Buffer.from(`${timestamp}${payload}`), privateKey).toString('base64');
+}
+
+/**
+ * Create a Paddle Billing webhook signature header
+ */
+export function createPaddleSignature(payload: string, secret: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}:${payload}`).digest('hex');
+  return `ts=${timestamp};h1=${signature}`;
+}
+
+/**
+ * Create a Linear webhook signature
+ */
+export function createLinearSignature(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Create a Twitch EventSub message signature
+ */
+export function createTwitchSignature(
+  messageId: string,
+  timestamp: string,
+  payload: string,
+  secret: string
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${messageId}${timestamp}${payload}`)
+    .digest('hex');
+  return `sha256=${signature}`;
+}
+
+/**
+ * Create a Zoom webhook signature
+ */
+export function createZoomSignature(payload: string, secret: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`v0:${timestamp}:${payload}`).digest('hex');
+  return `v0=${signature}`;
+}
+
+/**
+ * Create an RSA key pair; the PEM public key stands in for an SNS signing certificate
+ */
+export function createRsaKeyPair(): { publicKey: string; privateKey: KeyObject } {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { publicKey: publicKey.export({ format: 'pem', type: 'spki' }).toString(), privateKey };
+}
+
+/**
+ * Create a signed Amazon SNS message
+ */
+export function createSnsMessage(
+  fields: Record<string, string>,
+  privateKey: KeyObject,
+  signatureVersion: '1' | '2' = '1'
+): Record<string, string> {
+  const message: Record<string, string> = {
+    Type: 'Notification',
+    MessageId: 'a1b2c3d4-0000-0000-0000-000000000000',
+    TopicArn: 'arn:aws:sns:us-east-1:123456789012:orders',
+    Message: 'hello',
+    Timestamp: new Date().toISOString(),
+    SignatureVersion: signatureVersion,
+    SigningCertURL: 'https://sns.us-east-1.amazonaws.com/SimpleNotificationService-abc.pem',
+    ...fields,
+  };
+  const signedFields =
+    message.Type === 'Notification'
+      ? ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type']
+      : ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'];
+
+  let stringToSign = '';
+  for (const field of signedFields) {
+    const value = message[field];
+    if (value !== undefined) {
+      stringToSign += `${field}\n${value}\n`;
+    }
+  }
+  const digest = signatureVersion === '1' ? 'RSA-SHA1' : 'RSA-SHA256';
+  message.Signature = sign(digest, Buffer.from(stringToSign), privateKey).toString('base64');
+  return message;
+}
+
+/**
+ * Create a key pair for signing JWTs; the public key is returned as a JWK
+ */
+export function createJwtKeyPair(
+  alg: 'RS256' | 'ES256' | 'EdDSA',
+  kid = 'key-1'
+): { jwk: JsonWebKey; privateKey: KeyObject } {
+  const { publicKey, privateKey } =
+    alg === 'RS256'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : alg === 'ES256'
+        ? generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+        : generateKeyPairSync('ed25519');
+  return { jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg }, privateKey };
+}
+
+/**
+ * Create a signed JWT
+ */
+export function createJwt(
+  claims: Record<string, unknown>,
+  privateKey: KeyObject,
+  alg: 'RS256' | 'ES256' | 'EdDSA' = 'RS256',
+  kid = 'key-1'
+): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ alg, kid, typ: 'JWT' })}.${encode(claims)}`;
+  const signature =
+    alg === 'EdDSA'
+      ? sign(null, Buffer.from(signingInput), privateKey)
+      : sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Create a HubSpot v3 webhook signature
+ */
+export function createHubSpotSignature(
+  method: string,
+  uri: string,
+  payload: string,
+  secret: string,
+  timestamp: number
+): string {
+  return createHmac('sha256', secret)
+    .update(`${method}${uri}${payload}${String(timestamp)}`)
+    .digest('base64');
+}
+
+/**
+ * Create a Mailgun webhook signature
+ */
+export function createMailgunSignature(timestamp: number, token: string, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`${String(timestamp)}${token}`)
+    .digest('hex');
+}
+
+/**
+ * Create a Square webhook signature
+ */
+export function createSquareSignature(
+  notificationUrl: string,
+  payload: string,
+  secret: string
+): string {
+  return createHmac('sha256', secret).update(`${notificationUrl}${payload}`).digest('base64');
+}
+
+/**
+ * Sign a Shopify OAuth callback or app proxy query string, returning the full query
+ */
+export function createShopifyQuery(
+  params: Record<string, string | string[]>,
+  secret: string,
+  mode: 'oauth' | 'app-proxy'
+): string {
+  const entries = Object.entries(params).sort(([a], [b]) => a.localeCompare(b));
+  const message =
+    mode === 'oauth'
+      ? entries.map(([key, value]) => `${key}=${String(value)}`).join('&')
+      : entries
+          .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : value}`)
+          .join('');
+  const signature = createHmac('sha256', secret).update(message).digest('hex');
+
+  const query = new URLSearchParams();
+  for (const [key, value] of entries) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(key, item);
+    }
+  }
+  query.append(mode === 'oauth' ? 'hmac' : 'signature', signature);
+  return query.toString();
+}
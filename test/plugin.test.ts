@@ -1,15 +1,49 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHmac } from 'crypto';
 import Fastify, { type FastifyInstance } from 'fastify';
 import webhookVerify from '../src/index.js';
 import {
   createStripeSignature,
   createGitHubSignature,
+  createTwilioSignature,
+  createStandardWebhooksSignature,
+  createDiscordSignature,
+  createEd25519KeyPair,
+  createEcdsaKeyPair,
+  createSendGridSignature,
+  createPaddleSignature,
+  createLinearSignature,
+  createTwitchSignature,
+  createZoomSignature,
+  createRsaKeyPair,
+  createSnsMessage,
+  createJwt,
+  createJwtKeyPair,
+  createHubSpotSignature,
+  createMailgunSignature,
+  createSquareSignature,
+  createShopifyQuery,
+  createShopifySignature,
+  createSlackSignature,
   getCurrentTimestamp,
   getExpiredTimestamp,
 } from './helpers.js';
 
 const STRIPE_SECRET = 'whsec_test_secret_123';
 const GITHUB_SECRET = 'github_test_secret_456';
+const TWILIO_SECRET = 'twilio_test_token_789';
+const PADDLE_SECRET = 'pdl_ntfset_test_secret';
+const LINEAR_SECRET = 'lin_wh_test_secret';
+const GITLAB_TOKEN = 'gitlab_test_token';
+const META_SECRET = 'meta_test_app_secret';
+const TWITCH_SECRET = 'twitch_test_secret';
+const ZOOM_SECRET = 'zoom_test_secret_token';
+const HUBSPOT_SECRET = 'hubspot_test_client_secret';
+const MAILGUN_SECRET = 'mailgun_test_signing_key';
+const SQUARE_SECRET = 'square_test_signature_key';
+const SHOPIFY_SECRET = 'shopify_test_app_secret';
+const SLACK_SECRET = 'slack_test_signing_secret';
+const STANDARD_WEBHOOKS_SECRET = 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw';
 
 describe('fastify-webhook-verify plugin', () => {
   let fastify: FastifyInstance;
@@ -36,6 +70,12 @@ describe('fastify-webhook-verify plugin', () => {
       await fastify.register(webhookVerify, {});
       expect(fastify.webhookVerify).toBeDefined();
     });
+
+    it('should register next to plugins decorating request.shopify', async () => {
+      fastify.decorateRequest('shopify', null);
+
+      await expect(fastify.register(webhookVerify, {})).resolves.toBeDefined();
+    });
   });
 
   describe('Stripe webhook verification', () => {
@@ -57,8 +97,30 @@ describe('fastify-webhook-verify plugin', () => {
           };
         }
       );
+
+      fastify.post(
+        '/webhook/stripe-live',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'stripe',
+            stripe: { livemode: true, rejectV0: true },
+          }),
+        },
+        async (request) => ({ metadata: request.webhook?.metadata })
+      );
     });
 
+    const sendLive = (payload: string, signature: string) =>
+      fastify.inject({
+        method: 'POST',
+        url: '/webhook/stripe-live',
+        headers: {
+          'content-type': 'application/json',
+          'stripe-signature': signature,
+        },
+        payload,
+      });
+
     it('should verify valid Stripe webhook', async () => {
       const payload = JSON.stringify({ type: 'payment_intent.succeeded', id: 'evt_123' });
       const timestamp = getCurrentTimestamp();
@@ -110,6 +172,24 @@ describe('fastify-webhook-verify plugin', () => {
       expect(response.statusCode).toBe(401);
     });
 
+    it('should reject Stripe signatures without timestamp', async () => {
+      const payload = JSON.stringify({ type: 'test' });
+      const signature = createStripeSignature(payload, STRIPE_SECRET, getCurrentTimestamp());
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/stripe',
+        headers: {
+          'content-type': 'application/json',
+          'stripe-signature': signature.replace(/^t=\d+,/, ''),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+
     it('should reject expired Stripe timestamp', async () => {
       const payload = JSON.stringify({ type: 'test' });
       const timestamp = getExpiredTimestamp();
@@ -127,6 +207,62 @@ describe('fastify-webhook-verify plugin', () => {
 
       expect(response.statusCode).toBe(401);
     });
+
+    it('should accept any matching v1 signature during secret rolls', async () => {
+      const payload = JSON.stringify({ type: 'charge.succeeded', id: 'evt_roll' });
+      const timestamp = getCurrentTimestamp();
+      const current = createStripeSignature(payload, STRIPE_SECRET, timestamp);
+      const previous = createStripeSignature(payload, 'whsec_previous', timestamp);
+      const signature = `${previous},${current.split(',')[1] ?? ''}`;
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/stripe',
+        headers: {
+          'content-type': 'application/json',
+          'stripe-signature': signature,
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should expose the event id, livemode and Connect account', async () => {
+      const payload = JSON.stringify({
+        type: 'account.updated',
+        id: 'evt_live',
+        account: 'acct_123',
+        livemode: true,
+      });
+      const signature = createStripeSignature(payload, STRIPE_SECRET, getCurrentTimestamp());
+
+      const response = await sendLive(payload, signature);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        metadata: { id: 'evt_live', account: 'acct_123', livemode: true },
+      });
+    });
+
+    it('should reject test-mode events on live routes', async () => {
+      const payload = JSON.stringify({ type: 'charge.succeeded', id: 'evt_test', livemode: false });
+      const signature = createStripeSignature(payload, STRIPE_SECRET, getCurrentTimestamp());
+
+      const response = await sendLive(payload, signature);
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json()).toMatchObject({ code: 'LIVEMODE_MISMATCH' });
+    });
+
+    it('should reject v0 signatures when rejectV0 is set', async () => {
+      const payload = JSON.stringify({ type: 'charge.succeeded', id: 'evt_v0', livemode: true });
+      const signature = createStripeSignature(payload, STRIPE_SECRET, getCurrentTimestamp());
+
+      const response = await sendLive(payload, `${signature},v0=${'0'.repeat(64)}`);
+
+      expect(response.statusCode).toBe(401);
+    });
   });
 
   describe('GitHub webhook verification', () => {
@@ -148,6 +284,20 @@ describe('fastify-webhook-verify plugin', () => {
           };
         }
       );
+
+      fastify.post(
+        '/webhook/github-events',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'github',
+            github: { includeAction: true, answerPing: true },
+          }),
+        },
+        async (request) => ({
+          eventType: request.webhook?.eventType,
+          metadata: request.webhook?.metadata,
+        })
+      );
     });
 
     it('should verify valid GitHub webhook', async () => {
@@ -172,6 +322,45 @@ describe('fastify-webhook-verify plugin', () => {
       });
     });
 
+    it('should expose the event type and delivery metadata', async () => {
+      const payload = JSON.stringify({ action: 'opened', number: 1 });
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/github-events',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createGitHubSignature(payload, GITHUB_SECRET),
+          'x-github-event': 'pull_request',
+          'x-github-delivery': '72d3162e-cc78-11e3-81ab-4c9367dc0958',
+        },
+        payload,
+      });
+
+      expect(response.json()).toEqual({
+        eventType: 'pull_request.opened',
+        metadata: { event: 'pull_request', deliveryId: '72d3162e-cc78-11e3-81ab-4c9367dc0958' },
+      });
+    });
+
+    it('should answer ping events when enabled', async () => {
+      const payload = JSON.stringify({ zen: 'Keep it logically awesome.', hook_id: 1 });
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/github-events',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createGitHubSignature(payload, GITHUB_SECRET),
+          'x-github-event': 'ping',
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ ok: true });
+    });
+
     it('should reject invalid GitHub signature', async () => {
       const payload = JSON.stringify({ action: 'opened' });
 
@@ -189,107 +378,1880 @@ describe('fastify-webhook-verify plugin', () => {
     });
   });
 
-  describe('inline secret', () => {
+  describe('Slack request verification', () => {
     beforeEach(async () => {
-      await fastify.register(webhookVerify, {});
+      await fastify.register(webhookVerify, {
+        providers: { slack: SLACK_SECRET },
+        formBody: true,
+      });
 
       fastify.post(
-        '/webhook/stripe-inline',
+        '/webhook/slack',
+        { preHandler: fastify.webhookVerify({ provider: 'slack' }) },
+        async (request) => ({
+          eventType: request.webhook?.eventType,
+          payload: request.webhook?.payload,
+          metadata: request.webhook?.metadata,
+        })
+      );
+    });
+
+    const send = (payload: string, contentType: string, headers: Record<string, string> = {}) => {
+      const timestamp = getCurrentTimestamp();
+      return fastify.inject({
+        method: 'POST',
+        url: '/webhook/slack',
+        headers: {
+          'content-type': contentType,
+          'x-slack-signature': createSlackSignature(payload, SLACK_SECRET, timestamp),
+          'x-slack-request-timestamp': String(timestamp),
+          ...headers,
+        },
+        payload,
+      });
+    };
+
+    it('should answer url_verification challenges', async () => {
+      const response = await send(
+        JSON.stringify({ type: 'url_verification', challenge: 'challenge-token' }),
+        'application/json'
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toBe('challenge-token');
+    });
+
+    it('should verify slash commands over the raw form body', async () => {
+      const payload = 'command=%2Fdeploy&text=api+production&team_id=T0001';
+      const response = await send(payload, 'application/x-www-form-urlencoded');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ eventType: '/deploy', metadata: {} });
+    });
+
+    it('should decode interactive payloads', async () => {
+      const interaction = { type: 'shortcut', callback_id: 'open_ticket' };
+      const payload = new URLSearchParams({ payload: JSON.stringify(interaction) }).toString();
+      const response = await send(payload, 'application/x-www-form-urlencoded');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ eventType: 'open_ticket', payload: interaction });
+    });
+
+    it('should expose retry headers', async () => {
+      const response = await send(
+        JSON.stringify({ type: 'event_callback', event: { type: 'app_mention' } }),
+        'application/json',
+        { 'x-slack-retry-num': '2', 'x-slack-retry-reason': 'http_timeout' }
+      );
+
+      expect(response.json()).toMatchObject({
+        eventType: 'event_callback',
+        metadata: { retryNum: '2', retryReason: 'http_timeout' },
+      });
+    });
+
+    it('should reject tampered form bodies', async () => {
+      const timestamp = getCurrentTimestamp();
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/slack',
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+          'x-slack-signature': createSlackSignature('command=%2Fdeploy', SLACK_SECRET, timestamp),
+          'x-slack-request-timestamp': String(timestamp),
+        },
+        payload: 'command=%2Fdestroy',
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('Twilio webhook verification', () => {
+    const params = { AccountSid: 'AC123', Body: 'Hello world', From: '+14158675310' };
+    const payload = new URLSearchParams(params).toString();
+
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { twilio: TWILIO_SECRET },
+        formBody: true,
+      });
+
+      fastify.post(
+        '/webhook/twilio',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'twilio' }),
+        },
+        async (request) => ({
+          verified: request.webhook?.verified,
+          body: request.body,
+        })
+      );
+
+      fastify.post(
+        '/webhook/twilio-proxied',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'twilio', url: { trustProxy: true } }),
+        },
+        async (request) => ({ verified: request.webhook?.verified })
+      );
+
+      fastify.post(
+        '/webhook/twilio-host',
         {
           preHandler: fastify.webhookVerify({
-            provider: 'stripe',
-            secret: STRIPE_SECRET,
+            provider: 'twilio',
+            url: { protocol: 'https', host: 'hooks.example.com' },
           }),
         },
-        async (request) => {
-          return { verified: request.webhook?.verified };
-        }
+        async (request) => ({ verified: request.webhook?.verified })
       );
     });
 
-    it('should use inline secret for verification', async () => {
-      const payload = JSON.stringify({ type: 'checkout.session.completed' });
-      const timestamp = getCurrentTimestamp();
-      const signature = createStripeSignature(payload, STRIPE_SECRET, timestamp);
+    it('should verify form-encoded Twilio webhook', async () => {
+      const signature = createTwilioSignature(
+        'http://localhost:80/webhook/twilio?x=1',
+        params,
+        TWILIO_SECRET
+      );
 
       const response = await fastify.inject({
         method: 'POST',
-        url: '/webhook/stripe-inline',
+        url: '/webhook/twilio?x=1',
         headers: {
-          'content-type': 'application/json',
-          'stripe-signature': signature,
+          'content-type': 'application/x-www-form-urlencoded',
+          'x-twilio-signature': signature,
         },
         payload,
       });
 
       expect(response.statusCode).toBe(200);
-      expect(response.json()).toEqual({ verified: true });
+      expect(response.json()).toEqual({ verified: true, body: params });
     });
-  });
 
-  describe('missing secret', () => {
-    beforeEach(async () => {
-      await fastify.register(webhookVerify, {});
+    it('should reject tampered form parameters', async () => {
+      const signature = createTwilioSignature(
+        'http://localhost:80/webhook/twilio',
+        params,
+        TWILIO_SECRET
+      );
 
-      fastify.post(
-        '/webhook/no-secret',
-        {
-          preHandler: fastify.webhookVerify({ provider: 'stripe' }),
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/twilio',
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+          'x-twilio-signature': signature,
         },
-        async () => {
-          return { ok: true };
-        }
+        payload: new URLSearchParams({ ...params, Body: 'Tampered' }).toString(),
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should use forwarded headers when trustProxy is enabled', async () => {
+      const signature = createTwilioSignature(
+        'https://public.example.com/webhook/twilio-proxied',
+        params,
+        TWILIO_SECRET
       );
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/twilio-proxied',
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+          'x-forwarded-proto': 'https',
+          'x-forwarded-host': 'public.example.com',
+          'x-twilio-signature': signature,
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
     });
 
-    it('should throw error when secret is missing', async () => {
+    it('should use host and protocol overrides', async () => {
+      const signature = createTwilioSignature(
+        'https://hooks.example.com/webhook/twilio-host',
+        params,
+        TWILIO_SECRET
+      );
+
       const response = await fastify.inject({
         method: 'POST',
-        url: '/webhook/no-secret',
-        headers: { 'content-type': 'application/json' },
-        payload: { type: 'test' },
+        url: '/webhook/twilio-host',
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+          'x-twilio-signature': signature,
+        },
+        payload,
       });
 
-      expect(response.statusCode).toBe(500);
+      expect(response.statusCode).toBe(200);
     });
   });
 
-  describe('custom error handler', () => {
+  describe('existing form body parser', () => {
+    const params = { AccountSid: 'AC123', Body: 'Hello world' };
+    let parsedByApp = false;
+
     beforeEach(async () => {
+      parsedByApp = false;
+      // Parser installed by the app, as @fastify/formbody does
+      fastify.addContentTypeParser(
+        'application/x-www-form-urlencoded',
+        { parseAs: 'string' },
+        (_request, body: string, done) => {
+          parsedByApp = true;
+          done(null, Object.fromEntries(new URLSearchParams(body)));
+        }
+      );
       await fastify.register(webhookVerify, {
-        providers: { stripe: STRIPE_SECRET },
-        errorHandler: async (error, _request, reply) => {
-          await reply.status(400).send({
-            custom: true,
-            code: (error as any).code,
-          });
-        },
+        providers: { twilio: TWILIO_SECRET },
       });
 
       fastify.post(
-        '/webhook/custom-error',
-        {
-          preHandler: fastify.webhookVerify({ provider: 'stripe' }),
-        },
-        async () => {
-          return { ok: true };
-        }
+        '/webhook/twilio',
+        { preHandler: fastify.webhookVerify({ provider: 'twilio' }) },
+        async (request) => ({ body: request.body })
       );
     });
 
-    it('should use custom error handler', async () => {
+    it('should keep the app parser and still verify form requests', async () => {
       const response = await fastify.inject({
         method: 'POST',
-        url: '/webhook/custom-error',
-        headers: { 'content-type': 'application/json' },
-        payload: { type: 'test' },
+        url: '/webhook/twilio',
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+          'x-twilio-signature': createTwilioSignature(
+            'http://localhost:80/webhook/twilio',
+            params,
+            TWILIO_SECRET
+          ),
+        },
+        payload: new URLSearchParams(params).toString(),
       });
 
-      expect(response.statusCode).toBe(400);
-      expect(response.json()).toEqual({
-        custom: true,
-        code: 'MISSING_SIGNATURE',
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ body: params });
+      expect(parsedByApp).toBe(true);
+    });
+  });
+
+  describe('missing form body parser', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const register = async (options: { formBody?: boolean }): Promise<string[][]> => {
+      const warnings: string[][] = [];
+      vi.spyOn(fastify.log, 'warn').mockImplementation((data: unknown) => {
+        warnings.push((data as { providers: string[] }).providers);
       });
+      await fastify.register(webhookVerify, { providers: { twilio: TWILIO_SECRET }, ...options });
+      fastify.post(
+        '/webhook/twilio',
+        { preHandler: fastify.webhookVerify({ provider: 'twilio' }) },
+        async () => ({ ok: true })
+      );
+      await fastify.ready();
+      return warnings;
+    };
+
+    it('should warn about form routes without a form parser', async () => {
+      expect(await register({})).toContainEqual(['twilio']);
+    });
+
+    it('should not warn when the plugin parses forms', async () => {
+      expect(await register({ formBody: true })).toEqual([]);
+    });
+  });
+
+  describe('form body parser registered after the plugin', () => {
+    const params = { AccountSid: 'AC123', Body: 'Hello world' };
+
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { twilio: TWILIO_SECRET },
+      });
+      fastify.addContentTypeParser(
+        'application/x-www-form-urlencoded',
+        { parseAs: 'string' },
+        (_request, body: string, done) => {
+          done(null, Object.fromEntries(new URLSearchParams(body)));
+        }
+      );
+
+      fastify.post(
+        '/webhook/twilio',
+        { preHandler: fastify.webhookVerify({ provider: 'twilio' }) },
+        async (request) => ({ body: request.body })
+      );
+    });
+
+    it('should verify form requests with the app parser', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/twilio',
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+          'x-twilio-signature': createTwilioSignature(
+            'http://localhost:80/webhook/twilio',
+            params,
+            TWILIO_SECRET
+          ),
+        },
+        payload: new URLSearchParams(params).toString(),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ body: params });
+    });
+  });
+
+  describe('Standard Webhooks verification', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { 'standard-webhooks': STANDARD_WEBHOOKS_SECRET },
+      });
+
+      fastify.post(
+        '/webhook/clerk',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'standard-webhooks' }),
+        },
+        async (request) => ({
+          verified: request.webhook?.verified,
+          eventType: request.webhook?.eventType,
+        })
+      );
+    });
+
+    it('should verify valid webhook', async () => {
+      const payload = JSON.stringify({ type: 'user.created', data: { id: 'user_1' } });
+      const timestamp = getCurrentTimestamp();
+      const signature = createStandardWebhooksSignature(
+        'msg_1',
+        payload,
+        STANDARD_WEBHOOKS_SECRET,
+        timestamp
+      );
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/clerk',
+        headers: {
+          'content-type': 'application/json',
+          'webhook-id': 'msg_1',
+          'webhook-timestamp': String(timestamp),
+          'webhook-signature': signature,
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ verified: true, eventType: 'user.created' });
+    });
+
+    it('should verify legacy svix headers', async () => {
+      const payload = JSON.stringify({ type: 'email.delivered' });
+      const timestamp = getCurrentTimestamp();
+      const signature = createStandardWebhooksSignature(
+        'msg_2',
+        payload,
+        STANDARD_WEBHOOKS_SECRET,
+        timestamp
+      );
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/clerk',
+        headers: {
+          'content-type': 'application/json',
+          'svix-id': 'msg_2',
+          'svix-timestamp': String(timestamp),
+          'svix-signature': `v1,bm90LWEtbWF0Y2g= ${signature}`,
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should reject redelivery of the same message id', async () => {
+      const payload = JSON.stringify({ type: 'user.updated' });
+      const timestamp = getCurrentTimestamp();
+      const send = (body: string, ts: number) =>
+        fastify.inject({
+          method: 'POST',
+          url: '/webhook/clerk',
+          headers: {
+            'content-type': 'application/json',
+            'webhook-id': 'msg_3',
+            'webhook-timestamp': String(ts),
+            'webhook-signature': createStandardWebhooksSignature(
+              'msg_3',
+              body,
+              STANDARD_WEBHOOKS_SECRET,
+              ts
+            ),
+          },
+          payload: body,
+        });
+
+      expect((await send(payload, timestamp)).statusCode).toBe(200);
+      expect((await send(payload, timestamp - 1)).statusCode).toBe(401);
+    });
+
+    it('should accept a retry after the handler failed', async () => {
+      let failures = 1;
+      fastify.post(
+        '/webhook/clerk-failing',
+        { preHandler: fastify.webhookVerify({ provider: 'standard-webhooks' }) },
+        async () => {
+          if (failures-- > 0) {
+            throw new Error('database unavailable');
+          }
+          return { ok: true };
+        }
+      );
+
+      const payload = JSON.stringify({ type: 'user.deleted' });
+      const send = (ts: number) =>
+        fastify.inject({
+          method: 'POST',
+          url: '/webhook/clerk-failing',
+          headers: {
+            'content-type': 'application/json',
+            'webhook-id': 'msg_retry',
+            'webhook-timestamp': String(ts),
+            'webhook-signature': createStandardWebhooksSignature(
+              'msg_retry',
+              payload,
+              STANDARD_WEBHOOKS_SECRET,
+              ts
+            ),
+          },
+          payload,
+        });
+
+      const timestamp = getCurrentTimestamp();
+      expect((await send(timestamp)).statusCode).toBe(500);
+      expect((await send(timestamp + 1)).statusCode).toBe(200);
+      expect((await send(timestamp + 2)).statusCode).toBe(401);
+    });
+
+    it('should reject invalid signature', async () => {
+      const timestamp = getCurrentTimestamp();
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/clerk',
+        headers: {
+          'content-type': 'application/json',
+          'webhook-id': 'msg_4',
+          'webhook-timestamp': String(timestamp),
+          'webhook-signature': 'v1,bm90LWEtbWF0Y2g=',
+        },
+        payload: JSON.stringify({ type: 'user.deleted' }),
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject a missing webhook-id or webhook-timestamp', async () => {
+      const payload = JSON.stringify({ type: 'user.deleted' });
+      const timestamp = getCurrentTimestamp();
+      const headers = {
+        'content-type': 'application/json',
+        'webhook-id': 'msg_5',
+        'webhook-timestamp': String(timestamp),
+        'webhook-signature': createStandardWebhooksSignature(
+          'msg_5',
+          payload,
+          STANDARD_WEBHOOKS_SECRET,
+          timestamp
+        ),
+      };
+
+      for (const header of ['webhook-id', 'webhook-timestamp']) {
+        const response = await fastify.inject({
+          method: 'POST',
+          url: '/webhook/clerk',
+          headers: Object.fromEntries(Object.entries(headers).filter(([name]) => name !== header)),
+          payload,
+        });
+
+        expect(response.statusCode).toBe(401);
+        expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+      }
+    });
+  });
+
+  describe('Discord interaction verification', () => {
+    const { publicKey, privateKey } = createEd25519KeyPair();
+    let handlerCalled = false;
+
+    beforeEach(async () => {
+      handlerCalled = false;
+      await fastify.register(webhookVerify, {
+        providers: { discord: publicKey },
+      });
+
+      fastify.post(
+        '/interactions',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'discord' }),
+        },
+        async (request) => {
+          handlerCalled = true;
+          return { eventType: request.webhook?.eventType };
+        }
+      );
+
+      fastify.post(
+        '/interactions-manual',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'discord', autoRespond: false }),
+        },
+        async () => ({ handled: true })
+      );
+    });
+
+    const send = (url: string, payload: string, signature?: string) => {
+      const timestamp = getCurrentTimestamp();
+      return fastify.inject({
+        method: 'POST',
+        url,
+        headers: {
+          'content-type': 'application/json',
+          'x-signature-ed25519':
+            signature ?? createDiscordSignature(payload, privateKey, timestamp),
+          'x-signature-timestamp': String(timestamp),
+        },
+        payload,
+      });
+    };
+
+    it('should answer PING automatically', async () => {
+      const response = await send('/interactions', JSON.stringify({ type: 1 }));
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ type: 1 });
+      expect(handlerCalled).toBe(false);
+    });
+
+    it('should pass other interactions to the handler', async () => {
+      const response = await send('/interactions', JSON.stringify({ type: 2, id: '1' }));
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'APPLICATION_COMMAND' });
+      expect(handlerCalled).toBe(true);
+    });
+
+    it('should not answer PING when autoRespond is disabled', async () => {
+      const response = await send('/interactions-manual', JSON.stringify({ type: 1 }));
+
+      expect(response.json()).toEqual({ handled: true });
+    });
+
+    it('should reject invalid signature', async () => {
+      const response = await send('/interactions', JSON.stringify({ type: 1 }), 'ab'.repeat(64));
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject a missing timestamp header', async () => {
+      const payload = JSON.stringify({ type: 1 });
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/interactions',
+        headers: {
+          'content-type': 'application/json',
+          'x-signature-ed25519': createDiscordSignature(payload, privateKey, getCurrentTimestamp()),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+  });
+
+  describe('SendGrid event webhook verification', () => {
+    const { publicKey, privateKey } = createEcdsaKeyPair();
+    const payload = JSON.stringify([{ event: 'delivered', sg_event_id: 'e1' }]);
+
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { sendgrid: publicKey },
+      });
+
+      fastify.post(
+        '/webhook/sendgrid',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'sendgrid' }),
+        },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+    });
+
+    const send = (timestamp: number) =>
+      fastify.inject({
+        method: 'POST',
+        url: '/webhook/sendgrid',
+        headers: {
+          'content-type': 'application/json',
+          'x-twilio-email-event-webhook-signature': createSendGridSignature(
+            payload,
+            privateKey,
+            timestamp
+          ),
+          'x-twilio-email-event-webhook-timestamp': String(timestamp),
+        },
+        payload,
+      });
+
+    it('should verify valid SendGrid webhook', async () => {
+      const response = await send(getCurrentTimestamp());
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'delivered' });
+    });
+
+    it('should reject expired SendGrid timestamp', async () => {
+      const response = await send(getExpiredTimestamp());
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject a missing timestamp header', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/sendgrid',
+        headers: {
+          'content-type': 'application/json',
+          'x-twilio-email-event-webhook-signature': createSendGridSignature(
+            payload,
+            privateKey,
+            getCurrentTimestamp()
+          ),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+  });
+
+  describe('Paddle webhook verification', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { paddle: PADDLE_SECRET },
+      });
+
+      fastify.post(
+        '/webhook/paddle',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'paddle' }),
+        },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+    });
+
+    it('should verify webhook signed with the new secret during rotation', async () => {
+      const payload = JSON.stringify({ event_type: 'transaction.completed' });
+      const timestamp = getCurrentTimestamp();
+      const current = createPaddleSignature(payload, PADDLE_SECRET, timestamp);
+      const previous = createPaddleSignature(payload, 'old_secret', timestamp).split(';')[1];
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/paddle',
+        headers: {
+          'content-type': 'application/json',
+          'paddle-signature': `${current};${previous}`,
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'transaction.completed' });
+    });
+
+    it('should reject expired Paddle timestamp', async () => {
+      const payload = JSON.stringify({ event_type: 'transaction.completed' });
+      const signature = createPaddleSignature(payload, PADDLE_SECRET, getExpiredTimestamp());
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/paddle',
+        headers: {
+          'content-type': 'application/json',
+          'paddle-signature': signature,
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject Paddle signatures without timestamp', async () => {
+      const payload = JSON.stringify({ event_type: 'transaction.completed' });
+      const signature = createPaddleSignature(payload, PADDLE_SECRET, getCurrentTimestamp());
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/paddle',
+        headers: {
+          'content-type': 'application/json',
+          'paddle-signature': signature.replace(/^ts=\d+;/, ''),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+  });
+
+  describe('Linear webhook verification', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { linear: LINEAR_SECRET },
+      });
+
+      fastify.post(
+        '/webhook/linear',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'linear' }),
+        },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+    });
+
+    const send = (webhookTimestamp: number, delivery: string) => {
+      const payload = JSON.stringify({ type: 'Issue', action: 'create', webhookTimestamp });
+      return fastify.inject({
+        method: 'POST',
+        url: '/webhook/linear',
+        headers: {
+          'content-type': 'application/json',
+          'linear-signature': createLinearSignature(payload, LINEAR_SECRET),
+          'linear-delivery': delivery,
+        },
+        payload,
+      });
+    };
+
+    it('should verify valid Linear webhook', async () => {
+      const response = await send(Date.now(), 'dlv_1');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'Issue' });
+    });
+
+    it('should reject stale webhookTimestamp', async () => {
+      const response = await send(Date.now() - 600_000, 'dlv_2');
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject redelivery of the same delivery id', async () => {
+      const timestamp = Date.now();
+
+      expect((await send(timestamp, 'dlv_3')).statusCode).toBe(200);
+      expect((await send(timestamp, 'dlv_3')).statusCode).toBe(401);
+    });
+  });
+
+  describe('GitLab webhook verification', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { gitlab: GITLAB_TOKEN },
+      });
+
+      fastify.post(
+        '/webhook/gitlab',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'gitlab' }),
+        },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+    });
+
+    const send = (token: string, uuid: string) =>
+      fastify.inject({
+        method: 'POST',
+        url: '/webhook/gitlab',
+        headers: {
+          'content-type': 'application/json',
+          'x-gitlab-token': token,
+          'x-gitlab-event': 'Merge Request Hook',
+          'x-gitlab-event-uuid': uuid,
+        },
+        payload: { object_kind: 'merge_request' },
+      });
+
+    it('should verify valid GitLab token', async () => {
+      const response = await send(GITLAB_TOKEN, 'uuid-1');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'Merge Request Hook' });
+    });
+
+    it('should reject invalid GitLab token', async () => {
+      const response = await send('wrong', 'uuid-2');
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject redelivery of the same event UUID', async () => {
+      expect((await send(GITLAB_TOKEN, 'uuid-3')).statusCode).toBe(200);
+      expect((await send(GITLAB_TOKEN, 'uuid-3')).statusCode).toBe(401);
+    });
+  });
+
+  describe('Meta webhook route', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { meta: META_SECRET },
+      });
+
+      fastify.webhookRoute(
+        '/webhook/whatsapp',
+        { provider: 'meta', verifyToken: 'verify_me' },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+    });
+
+    it('should answer the subscription handshake', async () => {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: '/webhook/whatsapp',
+        query: { 'hub.mode': 'subscribe', 'hub.verify_token': 'verify_me', 'hub.challenge': '42' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/plain');
+      expect(response.body).toBe('42');
+    });
+
+    it('should reject the handshake with a wrong verify token', async () => {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: '/webhook/whatsapp',
+        query: { 'hub.mode': 'subscribe', 'hub.verify_token': 'wrong', 'hub.challenge': '42' },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json()).toMatchObject({ code: 'INVALID_VERIFY_TOKEN' });
+    });
+
+    it('should verify POST deliveries with the app secret', async () => {
+      const payload = JSON.stringify({ object: 'whatsapp_business_account', entry: [] });
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/whatsapp',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createGitHubSignature(payload, META_SECRET),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'whatsapp_business_account' });
+    });
+
+    it('should reject POST deliveries with an invalid signature', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/whatsapp',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createGitHubSignature('{}', 'other_secret'),
+        },
+        payload: { object: 'page' },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should refuse handshakes for providers without one', () => {
+      expect(() => fastify.webhookHandshake({ provider: 'stripe', verifyToken: 'x' })).toThrow(
+        'does not support verification handshakes'
+      );
+    });
+  });
+
+  describe('Twitch EventSub verification', () => {
+    let handlerCalled = false;
+
+    beforeEach(async () => {
+      handlerCalled = false;
+      await fastify.register(webhookVerify, {
+        providers: { twitch: TWITCH_SECRET },
+      });
+
+      fastify.post(
+        '/webhook/twitch',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'twitch' }),
+        },
+        async (request) => {
+          handlerCalled = true;
+          return { eventType: request.webhook?.eventType };
+        }
+      );
+    });
+
+    const send = (
+      messageId: string,
+      type: string,
+      body: Record<string, unknown>,
+      timestamp = new Date().toISOString()
+    ) => {
+      const payload = JSON.stringify(body);
+      return fastify.inject({
+        method: 'POST',
+        url: '/webhook/twitch',
+        headers: {
+          'content-type': 'application/json',
+          'twitch-eventsub-message-id': messageId,
+          'twitch-eventsub-message-timestamp': timestamp,
+          'twitch-eventsub-message-type': type,
+          'twitch-eventsub-message-signature': createTwitchSignature(
+            messageId,
+            timestamp,
+            payload,
+            TWITCH_SECRET
+          ),
+        },
+        payload,
+      });
+    };
+
+    it('should answer the callback verification challenge', async () => {
+      const response = await send('m1', 'webhook_callback_verification', {
+        challenge: 'abc-123',
+        subscription: { type: 'channel.follow' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toBe('abc-123');
+      expect(handlerCalled).toBe(false);
+    });
+
+    it('should pass notifications to the handler', async () => {
+      const response = await send('m2', 'notification', {
+        subscription: { type: 'channel.follow' },
+        event: {},
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'channel.follow' });
+    });
+
+    it('should pass revocations to the handler', async () => {
+      const response = await send('m3', 'revocation', {
+        subscription: { type: 'channel.follow', status: 'authorization_revoked' },
+      });
+
+      expect(response.json()).toEqual({ eventType: 'revocation' });
+    });
+
+    it('should reject a retried message id', async () => {
+      const body = { subscription: { type: 'channel.follow' } };
+
+      expect((await send('m4', 'notification', body)).statusCode).toBe(200);
+      expect((await send('m4', 'notification', body)).statusCode).toBe(401);
+    });
+
+    it('should reject stale messages', async () => {
+      const stale = new Date(Date.now() - 600_000).toISOString();
+      const response = await send('m5', 'notification', {}, stale);
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject unparseable timestamps', async () => {
+      const response = await send('m6', 'notification', {}, 'not-a-date');
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject a missing message id', async () => {
+      const payload = JSON.stringify({ subscription: { type: 'channel.follow' } });
+      const timestamp = new Date().toISOString();
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/twitch',
+        headers: {
+          'content-type': 'application/json',
+          'twitch-eventsub-message-timestamp': timestamp,
+          'twitch-eventsub-message-type': 'notification',
+          'twitch-eventsub-message-signature': createTwitchSignature(
+            'm7',
+            timestamp,
+            payload,
+            TWITCH_SECRET
+          ),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+  });
+
+  describe('Zoom webhook verification', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { zoom: ZOOM_SECRET },
+      });
+
+      fastify.post(
+        '/webhook/zoom',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'zoom' }),
+        },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+    });
+
+    const send = (body: Record<string, unknown>, secret = ZOOM_SECRET) => {
+      const payload = JSON.stringify(body);
+      const timestamp = getCurrentTimestamp();
+      return fastify.inject({
+        method: 'POST',
+        url: '/webhook/zoom',
+        headers: {
+          'content-type': 'application/json',
+          'x-zm-signature': createZoomSignature(payload, secret, timestamp),
+          'x-zm-request-timestamp': String(timestamp),
+        },
+        payload,
+      });
+    };
+
+    it('should answer endpoint.url_validation', async () => {
+      const response = await send({
+        event: 'endpoint.url_validation',
+        payload: { plainToken: 'abc' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        plainToken: 'abc',
+        encryptedToken: createHmac('sha256', ZOOM_SECRET).update('abc').digest('hex'),
+      });
+    });
+
+    it('should pass events to the handler', async () => {
+      const response = await send({ event: 'meeting.started', payload: {} });
+
+      expect(response.json()).toEqual({ eventType: 'meeting.started' });
+    });
+
+    it('should not answer unsigned URL validation', async () => {
+      const response = await send(
+        { event: 'endpoint.url_validation', payload: { plainToken: 'abc' } },
+        'wrong_secret'
+      );
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject a missing timestamp header', async () => {
+      const payload = JSON.stringify({ event: 'meeting.started', payload: {} });
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/zoom',
+        headers: {
+          'content-type': 'application/json',
+          'x-zm-signature': createZoomSignature(payload, ZOOM_SECRET, getCurrentTimestamp()),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+  });
+
+  describe('Amazon SNS verification', () => {
+    const { publicKey, privateKey } = createRsaKeyPair();
+    const confirmed: string[] = [];
+
+    beforeEach(async () => {
+      confirmed.length = 0;
+      await fastify.register(webhookVerify);
+
+      fastify.post(
+        '/webhook/sns',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'sns',
+            sns: {
+              fetchCertificate: () => Promise.resolve(publicKey),
+              confirmSubscription: (message) => {
+                confirmed.push(message.TopicArn);
+              },
+            },
+          }),
+        },
+        async (request) => ({
+          eventType: request.webhook?.eventType,
+          payload: request.webhook?.payload,
+        })
+      );
+    });
+
+    const send = (body: Record<string, string>) =>
+      fastify.inject({
+        method: 'POST',
+        url: '/webhook/sns',
+        headers: {
+          'content-type': 'text/plain; charset=UTF-8',
+          'x-amz-sns-message-type': body.Type,
+        },
+        payload: JSON.stringify(body),
+      });
+
+    it('should verify text/plain notifications without a secret', async () => {
+      const response = await send(createSnsMessage({ Message: 'order created' }, privateKey));
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({
+        eventType: 'Notification',
+        payload: { Message: 'order created' },
+      });
+    });
+
+    it('should keep text/plain parsers registered by the app', async () => {
+      fastify.addContentTypeParser('text/plain', { parseAs: 'string' }, (_request, body, done) => {
+        done(null, body);
+      });
+
+      const response = await send(createSnsMessage({ Message: 'order created' }, privateKey));
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ payload: { Message: 'order created' } });
+    });
+
+    it('should reject tampered messages', async () => {
+      const body = { ...createSnsMessage({}, privateKey), Message: 'tampered' };
+      const response = await send(body);
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject old messages', async () => {
+      const timestamp = new Date(getExpiredTimestamp() * 1000).toISOString();
+      const response = await send(createSnsMessage({ Timestamp: timestamp }, privateKey));
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should confirm subscriptions', async () => {
+      const body = createSnsMessage(
+        {
+          Type: 'SubscriptionConfirmation',
+          Token: 'token',
+          SubscribeURL: 'https://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription',
+        },
+        privateKey
+      );
+      const response = await send(body);
+
+      expect(response.json()).toEqual({ confirmed: true });
+      expect(confirmed).toEqual([body.TopicArn]);
+    });
+
+    it('should answer 503 when the certificate cannot be fetched', async () => {
+      fastify.post(
+        '/webhook/sns-unreachable',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'sns',
+            sns: {
+              fetchCertificate: () => Promise.reject(new Error('ECONNRESET')),
+              certificateCache: {
+                get: () => Promise.resolve(undefined),
+                set: () => Promise.resolve(),
+              },
+            },
+          }),
+        },
+        async () => ({ ok: true })
+      );
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/sns-unreachable',
+        headers: { 'content-type': 'text/plain', 'x-amz-sns-message-type': 'Notification' },
+        payload: JSON.stringify(createSnsMessage({}, privateKey)),
+      });
+
+      expect(response.statusCode).toBe(503);
+      expect(response.json()).toMatchObject({ code: 'KEY_UNAVAILABLE' });
+    });
+  });
+
+  describe('JWT bearer token verification', () => {
+    const { jwk, privateKey } = createJwtKeyPair('RS256');
+    const claims = {
+      iss: 'https://accounts.google.com',
+      aud: 'https://example.com/push',
+      email: 'push@project.iam.gserviceaccount.com',
+    };
+
+    beforeEach(async () => {
+      await fastify.register(webhookVerify);
+
+      fastify.post(
+        '/webhook/pubsub',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'jwt',
+            jwt: {
+              jwks: { keys: [jwk] },
+              issuer: claims.iss,
+              audience: claims.aud,
+              email: claims.email,
+            },
+          }),
+        },
+        async (request) => ({ claims: request.webhook?.claims })
+      );
+    });
+
+    const send = (token: string) =>
+      fastify.inject({
+        method: 'POST',
+        url: '/webhook/pubsub',
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Bearer ${token}`,
+        },
+        payload: JSON.stringify({ message: { data: 'aGVsbG8=' } }),
+      });
+
+    it('should expose the verified claims', async () => {
+      const exp = getCurrentTimestamp() + 3600;
+      const response = await send(createJwt({ ...claims, exp }, privateKey));
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ claims: { ...claims, exp } });
+    });
+
+    it('should reject the wrong audience', async () => {
+      const exp = getCurrentTimestamp() + 3600;
+      const response = await send(createJwt({ ...claims, aud: 'other', exp }, privateKey));
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+
+    it('should reject expired tokens with TimestampExpiredError', async () => {
+      const response = await send(createJwt({ ...claims, exp: getExpiredTimestamp() }, privateKey));
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'TIMESTAMP_EXPIRED' });
+    });
+
+    it('should reject requests without a bearer token', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/pubsub',
+        headers: { 'content-type': 'application/json' },
+        payload: '{}',
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should refuse routes without audience', () => {
+      expect(() =>
+        fastify.webhookVerify({ provider: 'jwt', jwt: { jwks: { keys: [jwk] } } })
+      ).toThrow('jwt provider requires audience');
+    });
+
+    it('should answer 503 when the JWKS cannot be loaded', async () => {
+      fastify.post(
+        '/webhook/pubsub-unreachable',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'jwt',
+            jwt: {
+              loadJwks: () => Promise.reject(new Error('ETIMEDOUT')),
+              audience: claims.aud,
+            },
+          }),
+        },
+        async () => ({ ok: true })
+      );
+
+      const token = createJwt({ ...claims, exp: getCurrentTimestamp() + 3600 }, privateKey);
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/pubsub-unreachable',
+        headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+        payload: '{}',
+      });
+
+      expect(response.statusCode).toBe(503);
+      expect(response.json()).toMatchObject({ code: 'KEY_UNAVAILABLE' });
+    });
+  });
+
+  describe('HubSpot webhook verification', () => {
+    const uri = 'https://hooks.example.com/webhook/hubspot?portalId=62515';
+
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { hubspot: HUBSPOT_SECRET },
+      });
+
+      fastify.post(
+        '/webhook/hubspot',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'hubspot',
+            url: { protocol: 'https', host: 'hooks.example.com' },
+          }),
+        },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+    });
+
+    const send = (timestamp: number, secret = HUBSPOT_SECRET) => {
+      const payload = JSON.stringify([{ subscriptionType: 'contact.propertyChange' }]);
+      return fastify.inject({
+        method: 'POST',
+        url: '/webhook/hubspot?portalId=62515',
+        headers: {
+          'content-type': 'application/json',
+          'x-hubspot-signature-v3': createHubSpotSignature('POST', uri, payload, secret, timestamp),
+          'x-hubspot-request-timestamp': String(timestamp),
+        },
+        payload,
+      });
+    };
+
+    it('should verify v3 signatures', async () => {
+      const response = await send(Date.now());
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'contact.propertyChange' });
+    });
+
+    it('should reject invalid signatures', async () => {
+      const response = await send(Date.now(), 'wrong_secret');
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject timestamps older than the tolerance', async () => {
+      const response = await send(getExpiredTimestamp() * 1000);
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'TIMESTAMP_EXPIRED' });
+    });
+
+    it('should reject a missing timestamp header', async () => {
+      const payload = JSON.stringify([{ subscriptionType: 'contact.propertyChange' }]);
+      const signature = createHubSpotSignature('POST', uri, payload, HUBSPOT_SECRET, Date.now());
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/hubspot?portalId=62515',
+        headers: { 'content-type': 'application/json', 'x-hubspot-signature-v3': signature },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+  });
+
+  describe('Mailgun webhook verification', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { mailgun: MAILGUN_SECRET },
+        formBody: true,
+      });
+
+      fastify.post(
+        '/webhook/mailgun',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'mailgun' }),
+        },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+    });
+
+    const sendJson = (token: string, timestamp = getCurrentTimestamp()) =>
+      fastify.inject({
+        method: 'POST',
+        url: '/webhook/mailgun',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({
+          signature: {
+            timestamp: String(timestamp),
+            token,
+            signature: createMailgunSignature(timestamp, token, MAILGUN_SECRET),
+          },
+          'event-data': { event: 'delivered' },
+        }),
+      });
+
+    it('should verify signatures from the JSON body', async () => {
+      const response = await sendJson('token-json');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'delivered' });
+    });
+
+    it('should verify signatures from form fields', async () => {
+      const timestamp = getCurrentTimestamp();
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/mailgun',
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        payload: new URLSearchParams({
+          timestamp: String(timestamp),
+          token: 'token-form',
+          signature: createMailgunSignature(timestamp, 'token-form', MAILGUN_SECRET),
+          event: 'opened',
+        }).toString(),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'opened' });
+    });
+
+    it('should reject stale timestamps', async () => {
+      const response = await sendJson('token-stale', getExpiredTimestamp());
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'TIMESTAMP_EXPIRED' });
+    });
+
+    it('should reject reused tokens', async () => {
+      await sendJson('token-reused');
+      const response = await sendJson('token-reused');
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'REPLAY_ATTACK' });
+    });
+
+    it('should reject bodies without signature', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/mailgun',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({ 'event-data': { event: 'delivered' } }),
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'MISSING_SIGNATURE' });
+    });
+
+    it('should reject signatures without token', async () => {
+      const timestamp = getCurrentTimestamp();
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/mailgun',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({
+          signature: {
+            timestamp: String(timestamp),
+            signature: createMailgunSignature(timestamp, '', MAILGUN_SECRET),
+          },
+        }),
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+  });
+
+  describe('Square webhook verification', () => {
+    const payload = JSON.stringify({ type: 'payment.created', event_id: 'evt-123' });
+
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { square: SQUARE_SECRET },
+      });
+
+      fastify.post(
+        '/webhook/square',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'square',
+            square: { notificationUrl: 'https://api.example.com/square' },
+          }),
+        },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+
+      fastify.post(
+        '/webhook/square-proxied',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'square', url: { trustProxy: true } }),
+        },
+        async (request) => ({ eventType: request.webhook?.eventType })
+      );
+    });
+
+    it('should verify against the configured notification URL', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/square',
+        headers: {
+          'content-type': 'application/json',
+          'x-square-hmacsha256-signature': createSquareSignature(
+            'https://api.example.com/square',
+            payload,
+            SQUARE_SECRET
+          ),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ eventType: 'payment.created' });
+    });
+
+    it('should derive the notification URL behind a proxy', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/square-proxied',
+        headers: {
+          'content-type': 'application/json',
+          'x-forwarded-proto': 'https',
+          'x-forwarded-host': 'hooks.example.com',
+          'x-square-hmacsha256-signature': createSquareSignature(
+            'https://hooks.example.com/webhook/square-proxied',
+            payload,
+            SQUARE_SECRET
+          ),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should reject signatures for another URL', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/square',
+        headers: {
+          'content-type': 'application/json',
+          'x-square-hmacsha256-signature': createSquareSignature(
+            'https://other.example.com/square',
+            payload,
+            SQUARE_SECRET
+          ),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('Shopify webhook metadata', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { shopify: SHOPIFY_SECRET },
+      });
+
+      fastify.post(
+        '/webhook/shopify',
+        { preHandler: fastify.webhookVerify({ provider: 'shopify' }) },
+        async (request) => ({
+          eventType: request.webhook?.eventType,
+          metadata: request.webhook?.metadata,
+        })
+      );
+    });
+
+    it('should expose topic and shop metadata', async () => {
+      const payload = JSON.stringify({ id: 820982911946154500 });
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/shopify',
+        headers: {
+          'content-type': 'application/json',
+          'x-shopify-hmac-sha256': createShopifySignature(payload, SHOPIFY_SECRET),
+          'x-shopify-topic': 'orders/create',
+          'x-shopify-shop-domain': 'demo.myshopify.com',
+          'x-shopify-webhook-id': 'b54557e4-bdd9-4b37-8a5f-bf7d70bcd043',
+          'x-shopify-api-version': '2024-01',
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        eventType: 'orders/create',
+        metadata: {
+          topic: 'orders/create',
+          shopDomain: 'demo.myshopify.com',
+          webhookId: 'b54557e4-bdd9-4b37-8a5f-bf7d70bcd043',
+          apiVersion: '2024-01',
+        },
+      });
+    });
+  });
+
+  describe('Shopify query signatures', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { shopify: SHOPIFY_SECRET },
+      });
+
+      fastify.get(
+        '/shopify/callback',
+        { preHandler: fastify.shopifyVerify({ mode: 'oauth' }) },
+        async (request) => ({ shop: request.shopifyQuery?.shop, mode: request.shopifyQuery?.mode })
+      );
+
+      fastify.get(
+        '/shopify/proxy',
+        { preHandler: fastify.shopifyVerify({ mode: 'app-proxy' }) },
+        async (request) => ({ shop: request.shopifyQuery?.shop })
+      );
+    });
+
+    const oauthQuery = (timestamp = getCurrentTimestamp(), secret = SHOPIFY_SECRET) =>
+      createShopifyQuery(
+        { code: 'abc', shop: 'demo.myshopify.com', state: 'nonce', timestamp: String(timestamp) },
+        secret,
+        'oauth'
+      );
+
+    it('should verify OAuth callbacks and expose the shop', async () => {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/shopify/callback?${oauthQuery()}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ shop: 'demo.myshopify.com', mode: 'oauth' });
+    });
+
+    it('should reject OAuth callbacks signed with another secret', async () => {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/shopify/callback?${oauthQuery(getCurrentTimestamp(), 'wrong')}`,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    });
+
+    it('should reject stale OAuth callbacks', async () => {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/shopify/callback?${oauthQuery(getExpiredTimestamp())}`,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'TIMESTAMP_EXPIRED' });
+    });
+
+    it('should reject callbacks without hmac', async () => {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: '/shopify/callback?shop=demo.myshopify.com',
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ code: 'MISSING_SIGNATURE' });
+    });
+
+    it('should not resolve the secret for unsigned callbacks', async () => {
+      let lookups = 0;
+      fastify.get(
+        '/shopify/resolved',
+        {
+          preHandler: fastify.shopifyVerify({
+            mode: 'oauth',
+            secret: () => {
+              lookups++;
+              return SHOPIFY_SECRET;
+            },
+          }),
+        },
+        async () => ({ ok: true })
+      );
+
+      const response = await fastify.inject({
+        method: 'GET',
+        url: '/shopify/resolved?shop=demo.myshopify.com',
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(lookups).toBe(0);
+    });
+
+    it('should verify app proxy requests', async () => {
+      const query = createShopifyQuery(
+        {
+          logged_in_customer_id: '',
+          path_prefix: '/apps/reviews',
+          shop: 'demo.myshopify.com',
+          timestamp: String(getCurrentTimestamp()),
+        },
+        SHOPIFY_SECRET,
+        'app-proxy'
+      );
+      const response = await fastify.inject({ method: 'GET', url: `/shopify/proxy?${query}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ shop: 'demo.myshopify.com' });
+    });
+  });
+
+  describe('inline secret', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {});
+
+      fastify.post(
+        '/webhook/stripe-inline',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'stripe',
+            secret: STRIPE_SECRET,
+          }),
+        },
+        async (request) => {
+          return { verified: request.webhook?.verified };
+        }
+      );
+    });
+
+    it('should use inline secret for verification', async () => {
+      const payload = JSON.stringify({ type: 'checkout.session.completed' });
+      const timestamp = getCurrentTimestamp();
+      const signature = createStripeSignature(payload, STRIPE_SECRET, timestamp);
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/stripe-inline',
+        headers: {
+          'content-type': 'application/json',
+          'stripe-signature': signature,
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ verified: true });
+    });
+  });
+
+  describe('missing secret', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {});
+
+      fastify.post(
+        '/webhook/no-secret',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'stripe' }),
+        },
+        async () => {
+          return { ok: true };
+        }
+      );
+    });
+
+    it('should throw error when secret is missing', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/no-secret',
+        headers: {
+          'content-type': 'application/json',
+          'stripe-signature': createStripeSignature(
+            '{"type":"test"}',
+            STRIPE_SECRET,
+            getCurrentTimestamp()
+          ),
+        },
+        payload: { type: 'test' },
+      });
+
+      expect(response.statusCode).toBe(500);
+    });
+  });
+
+  describe('custom error handler', () => {
+    beforeEach(async () => {
+      await fastify.register(webhookVerify, {
+        providers: { stripe: STRIPE_SECRET },
+        errorHandler: async (error, _request, reply) => {
+          await reply.status(400).send({
+            custom: true,
+            code: (error as any).code,
+          });
+        },
+      });
+
+      fastify.post(
+        '/webhook/custom-error',
+        {
+          preHandler: fastify.webhookVerify({ provider: 'stripe' }),
+        },
+        async () => {
+          return { ok: true };
+        }
+      );
+    });
+
+    it('should use custom error handler', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/custom-error',
+        headers: { 'content-type': 'application/json' },
+        payload: { type: 'test' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual({
+        custom: true,
+        code: 'MISSING_SIGNATURE',
+      });
+    });
+
+    it('should pass provider verification failures to the error handler', async () => {
+      fastify.post(
+        '/webhook/custom-error-zoom',
+        { preHandler: fastify.webhookVerify({ provider: 'zoom', secret: ZOOM_SECRET }) },
+        async () => ({ ok: true })
+      );
+      const payload = JSON.stringify({ event: 'meeting.started' });
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/custom-error-zoom',
+        headers: {
+          'content-type': 'application/json',
+          'x-zm-signature': createZoomSignature(payload, ZOOM_SECRET, getCurrentTimestamp()),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual({ custom: true, code: 'INVALID_SIGNATURE' });
     });
   });
 
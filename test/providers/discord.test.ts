@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { DiscordProvider } from '../../src/providers/discord.js';
+import { createDiscordSignature, createEd25519KeyPair } from '../helpers.js';
+
+describe('DiscordProvider', () => {
+  const provider = new DiscordProvider();
+  const { publicKey, privateKey } = createEd25519KeyPair();
+  const timestamp = 1234567890;
+  const context = {
+    method: 'POST',
+    url: 'http://localhost/interactions',
+    body: {},
+    headers: { 'x-signature-timestamp': String(timestamp) },
+  };
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('discord');
+      expect(provider.signatureHeader).toBe('x-signature-ed25519');
+      expect(provider.timestampHeader).toBe('x-signature-timestamp');
+      expect(provider.algorithm).toBe('ed25519');
+      expect(provider.signatureEncoding).toBe('hex');
+    });
+  });
+
+  describe('buildSignedPayload', () => {
+    it('should prefix body with the raw timestamp header', () => {
+      const payload = provider.buildSignedPayload(Buffer.from('{"type":1}'), undefined, context);
+      expect(payload.toString()).toBe(`${timestamp}{"type":1}`);
+    });
+
+    it('should throw without timestamp header', () => {
+      expect(() =>
+        provider.buildSignedPayload(Buffer.from('{}'), undefined, { ...context, headers: {} })
+      ).toThrow('Timestamp is required');
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should refuse to compute public-key signatures', () => {
+      expect(() => provider.computeSignature(Buffer.from('{}'), publicKey)).toThrow(
+        'public-key signatures'
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should verify valid signature with hex public key', () => {
+      const payload = '{"type":2}';
+      const signature = createDiscordSignature(payload, privateKey, timestamp);
+
+      expect(
+        provider.verify([signature], Buffer.from(payload), publicKey, undefined, context)
+      ).toBe(true);
+    });
+
+    it('should verify valid signature with PEM public key', () => {
+      const keys = generateKeyPairSync('ed25519');
+      const pem = keys.publicKey.export({ format: 'pem', type: 'spki' }).toString();
+      const payload = '{"type":2}';
+      const signature = createDiscordSignature(payload, keys.privateKey, timestamp);
+
+      expect(provider.verify([signature], Buffer.from(payload), pem, undefined, context)).toBe(
+        true
+      );
+    });
+
+    it('should reject tampered body', () => {
+      const signature = createDiscordSignature('{"type":2}', privateKey, timestamp);
+
+      expect(
+        provider.verify([signature], Buffer.from('{"type":3}'), publicKey, undefined, context)
+      ).toBe(false);
+    });
+
+    it('should reject malformed signature', () => {
+      expect(provider.verify(['zz'], Buffer.from('{}'), publicKey, undefined, context)).toBe(false);
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should map interaction type to its name', () => {
+      expect(provider.extractEventType({ type: 1 })).toBe('PING');
+      expect(provider.extractEventType({ type: 2 })).toBe('APPLICATION_COMMAND');
+    });
+
+    it('should return undefined for unknown type', () => {
+      expect(provider.extractEventType({ type: 99 })).toBeUndefined();
+      expect(provider.extractEventType({})).toBeUndefined();
+    });
+  });
+
+  describe('getAutoResponse', () => {
+    it('should answer PING with PONG', () => {
+      expect(provider.getAutoResponse({ type: 1 })).toEqual({ body: { type: 1 } });
+    });
+
+    it('should not answer other interactions', () => {
+      expect(provider.getAutoResponse({ type: 2 })).toBeUndefined();
+    });
+  });
+});
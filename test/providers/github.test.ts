@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
 import { GitHubProvider } from '../../src/providers/github.js';
 import { createGitHubSignature } from '../helpers.js';
 
@@ -66,8 +67,92 @@ describe('GitHubProvider', () => {
   });
 
   describe('extractEventType', () => {
-    it('should return undefined (event type is in header)', () => {
+    const context = {
+      method: 'POST',
+      url: '',
+      body: {},
+      headers: { 'x-github-event': 'pull_request' },
+    };
+
+    it('should read the event from X-GitHub-Event', () => {
+      expect(provider.extractEventType({ action: 'opened' }, context)).toBe('pull_request');
+    });
+
+    it('should append the action when includeAction is set', () => {
+      const withAction = new GitHubProvider({ includeAction: true });
+
+      expect(withAction.extractEventType({ action: 'opened' }, context)).toBe(
+        'pull_request.opened'
+      );
+      expect(withAction.extractEventType({}, context)).toBe('pull_request');
+    });
+
+    it('should return undefined without request context', () => {
       expect(provider.extractEventType({ action: 'opened' })).toBeUndefined();
     });
   });
+
+  describe('extractMetadata', () => {
+    it('should read delivery and hook headers', () => {
+      const headers = {
+        'x-github-event': 'push',
+        'x-github-delivery': '72d3162e-cc78-11e3-81ab-4c9367dc0958',
+        'x-github-hook-id': '292430182',
+        'x-github-hook-installation-target-id': '79929171',
+        'x-github-hook-installation-target-type': 'repository',
+      };
+
+      expect(provider.extractMetadata({ method: 'POST', url: '', body: {}, headers })).toEqual({
+        event: 'push',
+        deliveryId: '72d3162e-cc78-11e3-81ab-4c9367dc0958',
+        hookId: '292430182',
+        installationTargetId: '79929171',
+        installationTargetType: 'repository',
+      });
+    });
+  });
+
+  describe('getAutoResponse', () => {
+    const ping = { method: 'POST', url: '', body: {}, headers: { 'x-github-event': 'ping' } };
+
+    it('should answer ping events when answerPing is set', () => {
+      expect(new GitHubProvider({ answerPing: true }).getAutoResponse({}, ping)).toEqual({
+        body: { ok: true },
+      });
+    });
+
+    it('should not answer ping events by default', () => {
+      expect(provider.getAutoResponse({}, ping)).toBeUndefined();
+    });
+  });
+
+  describe('legacy SHA-1 signatures', () => {
+    const legacy = new GitHubProvider({ allowSha1: true });
+    const payload = '{"zen":"Design for failure."}';
+    const sha1 = createHmac('sha1', secret).update(payload).digest('hex');
+    const headers = { 'x-hub-signature': `sha1=${sha1}` };
+    const context = { method: 'POST', url: '', body: {}, headers };
+
+    it('should read X-Hub-Signature only when allowed', () => {
+      expect(provider.readSignatureHeader(headers)).toBeUndefined();
+      expect(legacy.readSignatureHeader(headers)).toBe(`sha1=${sha1}`);
+    });
+
+    it('should verify SHA-1 signatures', () => {
+      const signatures = legacy.extractSignatures(`sha1=${sha1}`);
+
+      expect(legacy.verify(signatures, Buffer.from(payload), secret, undefined, context)).toBe(
+        true
+      );
+    });
+
+    it('should prefer SHA-256 when both headers are sent', () => {
+      const both = {
+        ...context,
+        headers: { ...headers, 'x-hub-signature-256': createGitHubSignature(payload, secret) },
+      };
+
+      expect(legacy.verify([sha1], Buffer.from(payload), secret, undefined, both)).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { GitLabProvider } from '../../src/providers/gitlab.js';
+
+describe('GitLabProvider', () => {
+  const provider = new GitLabProvider();
+  const secret = 'gitlab_secret_token';
+  const context = (headers = {}) => ({
+    method: 'POST',
+    url: 'http://localhost/gitlab',
+    body: {},
+    headers,
+  });
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('gitlab');
+      expect(provider.signatureHeader).toBe('x-gitlab-token');
+      expect(provider.algorithm).toBe('token');
+      expect(provider.timestampHeader).toBeUndefined();
+    });
+  });
+
+  describe('extractSignature', () => {
+    it('should return the token as-is', () => {
+      expect(provider.extractSignature('my token')).toBe('my token');
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept the configured token', () => {
+      expect(provider.verify([secret], Buffer.from('{}'), secret)).toBe(true);
+    });
+
+    it('should reject a different token', () => {
+      expect(provider.verify(['gitlab_secret_tokeN'], Buffer.from('{}'), secret)).toBe(false);
+    });
+
+    it('should reject a token of different length', () => {
+      expect(provider.verify([`${secret}x`], Buffer.from('{}'), secret)).toBe(false);
+      expect(provider.verify([''], Buffer.from('{}'), secret)).toBe(false);
+    });
+  });
+
+  describe('extractNonce', () => {
+    it('should use X-Gitlab-Event-UUID header', () => {
+      expect(provider.extractNonce(context({ 'x-gitlab-event-uuid': 'uuid-1' }))).toBe('uuid-1');
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should read X-Gitlab-Event header', () => {
+      expect(
+        provider.extractEventType(
+          { object_kind: 'push' },
+          context({ 'x-gitlab-event': 'Push Hook' })
+        )
+      ).toBe('Push Hook');
+    });
+
+    it('should fall back to object_kind', () => {
+      expect(provider.extractEventType({ object_kind: 'merge_request' }, context())).toBe(
+        'merge_request'
+      );
+    });
+  });
+});
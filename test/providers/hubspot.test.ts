@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { HubSpotProvider } from '../../src/providers/hubspot.js';
+import { createHubSpotSignature } from '../helpers.js';
+
+describe('HubSpotProvider', () => {
+  const provider = new HubSpotProvider();
+  const secret = 'hubspot_client_secret';
+  const url = 'https://example.com/webhooks/hubspot?portal=1';
+  const payload = '[{"subscriptionType":"contact.creation"}]';
+  const timestamp = 1700000000123;
+  const context = (headers = {}, method = 'POST') => ({ method, url, body: [], headers });
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('hubspot');
+      expect(provider.signatureHeader).toBe('x-hubspot-signature-v3');
+      expect(provider.timestampHeader).toBe('x-hubspot-request-timestamp');
+      expect(provider.timestampFormat).toBe('unix-ms');
+      expect(provider.signatureEncoding).toBe('base64');
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should sign method, URI, body and timestamp', () => {
+      const headers = { 'x-hubspot-request-timestamp': String(timestamp) };
+      const signature = provider.computeSignature(
+        Buffer.from(payload),
+        secret,
+        new Date(timestamp),
+        context(headers)
+      );
+
+      expect(signature).toBe(createHubSpotSignature('POST', url, payload, secret, timestamp));
+    });
+
+    it('should decode percent-encoded URI characters', () => {
+      const encoded = 'https://example.com/webhooks/hubspot?redirect=https%3A%2F%2Fapp%2Ftest%20x';
+      const decoded = 'https://example.com/webhooks/hubspot?redirect=https://app/test%20x';
+      const signature = provider.computeSignature(Buffer.from(''), secret, new Date(timestamp), {
+        method: 'GET',
+        url: encoded,
+        body: undefined,
+        headers: {},
+      });
+
+      expect(signature).toBe(createHubSpotSignature('GET', decoded, '', secret, timestamp));
+    });
+
+    it('should throw without timestamp', () => {
+      expect(() =>
+        provider.computeSignature(Buffer.from(payload), secret, undefined, context())
+      ).toThrow('Timestamp is required');
+    });
+  });
+
+  describe('legacy signatures', () => {
+    const legacy = new HubSpotProvider({ allowLegacySignatures: true });
+
+    it('should ignore the legacy header by default', () => {
+      expect(provider.readSignatureHeader({ 'x-hubspot-signature': 'abc' })).toBeUndefined();
+      expect(legacy.readSignatureHeader({ 'x-hubspot-signature': 'abc' })).toBe('abc');
+    });
+
+    it('should verify v1 signatures', () => {
+      const signature = createHash('sha256')
+        .update(secret + payload)
+        .digest('hex');
+      const headers = { 'x-hubspot-signature': signature, 'x-hubspot-signature-version': 'v1' };
+
+      expect(
+        legacy.verify([signature], Buffer.from(payload), secret, undefined, context(headers))
+      ).toBe(true);
+      expect(
+        provider.verify([signature], Buffer.from(payload), secret, new Date(), context(headers))
+      ).toBe(false);
+    });
+
+    it('should verify v2 signatures', () => {
+      const signature = createHash('sha256').update(`${secret}POST${url}${payload}`).digest('hex');
+      const headers = { 'x-hubspot-signature': signature, 'x-hubspot-signature-version': 'v2' };
+
+      expect(
+        legacy.verify([signature], Buffer.from(payload), secret, undefined, context(headers))
+      ).toBe(true);
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should extract the subscription type of a batch', () => {
+      expect(
+        provider.extractEventType([
+          { subscriptionType: 'contact.creation' },
+          { subscriptionType: 'contact.creation' },
+        ] as unknown as Record<string, unknown>)
+      ).toBe('contact.creation');
+    });
+
+    it('should return undefined for mixed batches', () => {
+      expect(
+        provider.extractEventType([
+          { subscriptionType: 'contact.creation' },
+          { subscriptionType: 'deal.creation' },
+        ] as unknown as Record<string, unknown>)
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JwtProvider } from '../../src/providers/jwt.js';
+import { KeyUnavailableError, TimestampExpiredError } from '../../src/errors.js';
+import { createJwt, createJwtKeyPair } from '../helpers.js';
+
+describe('JwtProvider', () => {
+  const rsa = createJwtKeyPair('RS256');
+  const now = Math.floor(Date.now() / 1000);
+  const claims = {
+    iss: 'https://accounts.google.com',
+    aud: 'https://example.com/push',
+    email: 'push@project.iam.gserviceaccount.com',
+    email_verified: true,
+    exp: now + 3600,
+    iat: now,
+  };
+
+  const options = { jwks: { keys: [rsa.jwk] }, audience: claims.aud };
+
+  const verify = (provider: JwtProvider, token: string) =>
+    provider.verify([token], Buffer.from('{}'), '');
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      const provider = new JwtProvider(options);
+
+      expect(provider.name).toBe('jwt');
+      expect(provider.signatureHeader).toBe('authorization');
+      expect(provider.requiresSecret).toBe(false);
+    });
+
+    it('should require a key source', () => {
+      expect(() => new JwtProvider({ audience: claims.aud })).toThrow(
+        'jwt provider requires jwks, jwksUri or loadJwks'
+      );
+    });
+
+    it('should require an audience', () => {
+      expect(() => new JwtProvider({ jwks: options.jwks })).toThrow(
+        'jwt provider requires audience'
+      );
+      expect(() => new JwtProvider({ jwks: options.jwks, audience: [] })).toThrow(
+        'jwt provider requires audience'
+      );
+    });
+  });
+
+  describe('extractSignature', () => {
+    it('should extract the bearer token', () => {
+      expect(new JwtProvider(options).extractSignature('Bearer a.b.c')).toBe('a.b.c');
+    });
+
+    it('should throw on other schemes', () => {
+      expect(() => new JwtProvider(options).extractSignature('Basic abc')).toThrow(
+        'Invalid Authorization header format'
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it.each(['RS256', 'ES256', 'EdDSA'] as const)('should verify %s tokens', async (alg) => {
+      const { jwk, privateKey } = alg === 'RS256' ? rsa : createJwtKeyPair(alg);
+      const provider = new JwtProvider({ ...options, jwks: { keys: [jwk] } });
+
+      expect(await verify(provider, createJwt(claims, privateKey, alg))).toBe(true);
+    });
+
+    it('should reject tokens signed with another key', async () => {
+      const other = createJwtKeyPair('ES256');
+      const provider = new JwtProvider(options);
+
+      expect(await verify(provider, createJwt(claims, other.privateKey, 'ES256'))).toBe(false);
+    });
+
+    it('should reject disallowed algorithms', async () => {
+      const provider = new JwtProvider({ ...options, algorithms: ['ES256'] });
+
+      expect(await verify(provider, createJwt(claims, rsa.privateKey))).toBe(false);
+    });
+
+    it('should reject malformed tokens', async () => {
+      const provider = new JwtProvider(options);
+
+      expect(await verify(provider, 'not-a-jwt')).toBe(false);
+    });
+
+    it('should check issuer, audience and email', async () => {
+      const token = createJwt(claims, rsa.privateKey);
+      const jwks = { keys: [rsa.jwk] };
+
+      expect(
+        await verify(
+          new JwtProvider({
+            jwks,
+            issuer: ['https://accounts.google.com', 'accounts.google.com'],
+            audience: 'https://example.com/push',
+            email: 'push@project.iam.gserviceaccount.com',
+          }),
+          token
+        )
+      ).toBe(true);
+      expect(await verify(new JwtProvider({ ...options, issuer: 'other' }), token)).toBe(false);
+      expect(await verify(new JwtProvider({ ...options, audience: 'other' }), token)).toBe(false);
+      expect(await verify(new JwtProvider({ ...options, email: 'other@example.com' }), token)).toBe(
+        false
+      );
+    });
+
+    it('should reject unverified emails', async () => {
+      const provider = new JwtProvider({ ...options, email: claims.email });
+      const token = createJwt({ ...claims, email_verified: false }, rsa.privateKey);
+
+      expect(await verify(provider, token)).toBe(false);
+    });
+
+    it('should throw TimestampExpiredError for expired tokens', async () => {
+      const provider = new JwtProvider(options);
+      const token = createJwt({ ...claims, exp: now - 60 }, rsa.privateKey);
+
+      await expect(verify(provider, token)).rejects.toThrow(TimestampExpiredError);
+    });
+
+    it('should throw TimestampExpiredError for tokens not yet valid', async () => {
+      const provider = new JwtProvider(options);
+      const token = createJwt({ ...claims, nbf: now + 600 }, rsa.privateKey);
+
+      await expect(verify(provider, token)).rejects.toThrow(TimestampExpiredError);
+    });
+
+    it('should allow clock tolerance', async () => {
+      const provider = new JwtProvider({ ...options, clockTolerance: 120 });
+      const token = createJwt({ ...claims, exp: now - 60 }, rsa.privateKey);
+
+      expect(await verify(provider, token)).toBe(true);
+    });
+
+    it('should require exp', async () => {
+      const provider = new JwtProvider(options);
+      const token = createJwt({ iss: claims.iss }, rsa.privateKey);
+
+      await expect(verify(provider, token)).rejects.toThrow(TimestampExpiredError);
+    });
+  });
+
+  describe('loadJwks', () => {
+    it('should cache loaded key sets', async () => {
+      const loadJwks = vi.fn(() => Promise.resolve({ keys: [rsa.jwk] }));
+      const token = createJwt(claims, rsa.privateKey);
+
+      expect(await verify(new JwtProvider({ loadJwks, audience: claims.aud }), token)).toBe(true);
+      expect(await verify(new JwtProvider({ loadJwks, audience: claims.aud }), token)).toBe(true);
+      expect(loadJwks).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload after the cache TTL', async () => {
+      const loadJwks = vi.fn(() => Promise.resolve({ keys: [rsa.jwk] }));
+      const provider = new JwtProvider({ loadJwks, audience: claims.aud, jwksCacheTtl: 0 });
+      const token = createJwt(claims, rsa.privateKey);
+
+      await verify(provider, token);
+      await verify(provider, token);
+
+      expect(loadJwks).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share concurrent loads', async () => {
+      const loadJwks = vi.fn(() => Promise.resolve({ keys: [rsa.jwk] }));
+      const provider = new JwtProvider({ loadJwks, audience: claims.aud });
+      const token = createJwt(claims, rsa.privateKey);
+
+      const results = await Promise.all([
+        verify(provider, token),
+        verify(provider, token),
+        verify(provider, token),
+      ]);
+
+      expect(results).toEqual([true, true, true]);
+      expect(loadJwks).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer failed loads as unavailable and not retry them immediately', async () => {
+      const loadJwks = vi.fn(() => Promise.reject(new Error('ECONNRESET')));
+      const provider = new JwtProvider({ loadJwks, audience: claims.aud });
+      const token = createJwt(claims, rsa.privateKey);
+
+      await expect(verify(provider, token)).rejects.toThrow(KeyUnavailableError);
+      await expect(verify(provider, token)).rejects.toThrow(KeyUnavailableError);
+      expect(loadJwks).toHaveBeenCalledTimes(1);
+    });
+
+    it('should download key sets with a timeout', async () => {
+      const fetch = vi.fn(() => Promise.reject(new Error('ETIMEDOUT')));
+      vi.stubGlobal('fetch', fetch);
+      const jwksUri = 'https://www.googleapis.com/oauth2/v3/certs-timeout';
+      const provider = new JwtProvider({ jwksUri, audience: claims.aud });
+
+      try {
+        await expect(verify(provider, createJwt(claims, rsa.privateKey))).rejects.toThrow(
+          KeyUnavailableError
+        );
+      } finally {
+        vi.unstubAllGlobals();
+      }
+      expect(fetch).toHaveBeenCalledWith(jwksUri, { signal: expect.any(AbortSignal) });
+    });
+  });
+
+  describe('extractClaims', () => {
+    it('should decode the token claims', () => {
+      const provider = new JwtProvider(options);
+      const headers = { authorization: `Bearer ${createJwt(claims, rsa.privateKey)}` };
+
+      expect(provider.extractClaims({ method: 'POST', url: '', body: {}, headers })).toEqual(
+        claims
+      );
+    });
+  });
+
+  describe('extractNonce', () => {
+    const token = createJwt({ ...claims, jti: 'token-1' }, rsa.privateKey);
+    const context = {
+      method: 'POST',
+      url: '',
+      body: {},
+      headers: { authorization: `Bearer ${token}` },
+    };
+
+    it('should not use the jti claim by default', () => {
+      expect(new JwtProvider(options).extractNonce(context)).toBeUndefined();
+    });
+
+    it('should use the jti claim when jtiNonce is set', () => {
+      const provider = new JwtProvider({ ...options, jtiNonce: true });
+
+      expect(provider.extractNonce(context)).toBe('token-1');
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should read type or eventType', () => {
+      const provider = new JwtProvider(options);
+
+      expect(provider.extractEventType({ type: 'com.example.created' })).toBe(
+        'com.example.created'
+      );
+      expect(provider.extractEventType({ eventType: 'Microsoft.Storage.BlobCreated' })).toBe(
+        'Microsoft.Storage.BlobCreated'
+      );
+    });
+  });
+});
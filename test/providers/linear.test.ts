@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { LinearProvider } from '../../src/providers/linear.js';
+import { createLinearSignature } from '../helpers.js';
+
+describe('LinearProvider', () => {
+  const provider = new LinearProvider();
+  const secret = 'lin_wh_secret';
+  const context = (body: unknown, headers = {}) => ({
+    method: 'POST',
+    url: 'http://localhost/linear',
+    body,
+    headers,
+  });
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('linear');
+      expect(provider.signatureHeader).toBe('linear-signature');
+      expect(provider.timestampHeader).toBeUndefined();
+      expect(provider.timestampField).toBe('webhookTimestamp');
+      expect(provider.timestampFormat).toBe('unix-ms');
+      expect(provider.algorithm).toBe('sha256');
+      expect(provider.signatureEncoding).toBe('hex');
+    });
+  });
+
+  describe('extractTimestamp', () => {
+    it('should read millisecond timestamp from body', () => {
+      const timestamp = provider.extractTimestamp(context({ webhookTimestamp: 1700000000123 }), '');
+      expect(timestamp?.getTime()).toBe(1700000000123);
+    });
+
+    it('should return undefined when body has no timestamp', () => {
+      expect(provider.extractTimestamp(context({ type: 'Issue' }), '')).toBeUndefined();
+    });
+  });
+
+  describe('extractNonce', () => {
+    it('should use Linear-Delivery header', () => {
+      expect(provider.extractNonce(context({}, { 'linear-delivery': 'dlv_1' }))).toBe('dlv_1');
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should compute correct signature', () => {
+      const payload = '{"type":"Issue","action":"create"}';
+      expect(provider.computeSignature(Buffer.from(payload), secret)).toBe(
+        createLinearSignature(payload, secret)
+      );
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should extract entity type from body', () => {
+      expect(provider.extractEventType({ type: 'Comment' })).toBe('Comment');
+    });
+  });
+});
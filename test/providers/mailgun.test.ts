@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { MailgunProvider } from '../../src/providers/mailgun.js';
+import { createMailgunSignature } from '../helpers.js';
+
+describe('MailgunProvider', () => {
+  const provider = new MailgunProvider();
+  const secret = 'mailgun_signing_key';
+  const timestamp = 1234567890;
+  const token = 'a8ce0edb2dd8301dee6c2405235584e45aa91d1e9f979f3de0';
+  const signature = createMailgunSignature(timestamp, token, secret);
+  const context = (body: unknown) => ({ method: 'POST', url: '', body, headers: {} });
+
+  const jsonBody = {
+    signature: { timestamp: String(timestamp), token, signature },
+    'event-data': { event: 'delivered' },
+  };
+  const formBody = { timestamp: String(timestamp), token, signature, event: 'opened' };
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('mailgun');
+      expect(provider.signatureHeader).toBeUndefined();
+      expect(provider.algorithm).toBe('sha256');
+      expect(provider.signatureEncoding).toBe('hex');
+    });
+  });
+
+  describe('readSignature', () => {
+    it('should read the signature object of JSON bodies', () => {
+      expect(provider.readSignature(context(jsonBody))).toBe(signature);
+    });
+
+    it('should read the signature field of form bodies', () => {
+      expect(provider.readSignature(context(formBody))).toBe(signature);
+    });
+
+    it('should return undefined without a signature', () => {
+      expect(provider.readSignature(context({ 'event-data': {} }))).toBeUndefined();
+    });
+  });
+
+  describe('extractTimestamp', () => {
+    it('should read the body timestamp', () => {
+      expect(provider.extractTimestamp(context(jsonBody), signature)?.getTime()).toBe(
+        timestamp * 1000
+      );
+    });
+  });
+
+  describe('extractNonce', () => {
+    it('should use the token', () => {
+      expect(provider.extractNonce(context(formBody))).toBe(token);
+    });
+  });
+
+  describe('verify', () => {
+    it('should verify JSON and form bodies', () => {
+      for (const body of [jsonBody, formBody]) {
+        expect(
+          provider.verify([signature], Buffer.from(''), secret, undefined, context(body))
+        ).toBe(true);
+      }
+    });
+
+    it('should reject a wrong signing key', () => {
+      expect(
+        provider.verify([signature], Buffer.from(''), 'wrong_key', undefined, context(jsonBody))
+      ).toBe(false);
+    });
+
+    it('should throw without token', () => {
+      expect(() =>
+        provider.computeSignature(Buffer.from(''), secret, undefined, context({ timestamp: '1' }))
+      ).toThrow('Timestamp and token are required');
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should read event-data.event or event', () => {
+      expect(provider.extractEventType(jsonBody)).toBe('delivered');
+      expect(provider.extractEventType(formBody)).toBe('opened');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { MetaProvider } from '../../src/providers/meta.js';
+import { createGitHubSignature } from '../helpers.js';
+
+describe('MetaProvider', () => {
+  const provider = new MetaProvider();
+  const secret = 'meta_app_secret';
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('meta');
+      expect(provider.signatureHeader).toBe('x-hub-signature-256');
+      expect(provider.algorithm).toBe('sha256');
+      expect(provider.signatureEncoding).toBe('hex');
+      expect(provider.supportsHandshake).toBe(true);
+    });
+  });
+
+  describe('extractSignature', () => {
+    it('should extract signature from header', () => {
+      expect(provider.extractSignature('sha256=abc123')).toBe('abc123');
+    });
+
+    it('should throw on invalid format', () => {
+      expect(() => provider.extractSignature('sha1=abc123')).toThrow(
+        'Invalid Meta signature format'
+      );
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should compute correct signature', () => {
+      const payload = '{"object":"page"}';
+      const expected = createGitHubSignature(payload, secret).slice('sha256='.length);
+
+      expect(provider.computeSignature(Buffer.from(payload), secret)).toBe(expected);
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should extract object from body', () => {
+      expect(provider.extractEventType({ object: 'whatsapp_business_account' })).toBe(
+        'whatsapp_business_account'
+      );
+    });
+  });
+
+  describe('answerHandshake', () => {
+    const query = {
+      'hub.mode': 'subscribe',
+      'hub.verify_token': 'my_verify_token',
+      'hub.challenge': '1158201444',
+    };
+
+    it('should echo the challenge when the verify token matches', () => {
+      expect(provider.answerHandshake(query, 'my_verify_token')).toEqual({
+        contentType: 'text/plain',
+        body: '1158201444',
+      });
+    });
+
+    it('should reject a different verify token', () => {
+      expect(provider.answerHandshake(query, 'other_token')).toBeUndefined();
+    });
+
+    it('should reject a mode other than subscribe', () => {
+      expect(
+        provider.answerHandshake({ ...query, 'hub.mode': 'unsubscribe' }, 'my_verify_token')
+      ).toBeUndefined();
+    });
+
+    it('should reject a missing challenge', () => {
+      const { 'hub.challenge': _challenge, ...rest } = query;
+      expect(provider.answerHandshake(rest, 'my_verify_token')).toBeUndefined();
+    });
+  });
+});
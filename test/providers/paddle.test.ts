@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { PaddleProvider } from '../../src/providers/paddle.js';
+import { createPaddleSignature } from '../helpers.js';
+
+describe('PaddleProvider', () => {
+  const provider = new PaddleProvider();
+  const secret = 'pdl_ntfset_secret';
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('paddle');
+      expect(provider.signatureHeader).toBe('paddle-signature');
+      expect(provider.algorithm).toBe('sha256');
+      expect(provider.signatureEncoding).toBe('hex');
+      expect(provider.timestampHeader).toBeUndefined();
+    });
+  });
+
+  describe('extractSignatures', () => {
+    it('should extract h1 signature from header', () => {
+      expect(provider.extractSignature('ts=1671552777;h1=abc123')).toBe('abc123');
+    });
+
+    it('should extract every h1 signature during rotation', () => {
+      expect(provider.extractSignatures('ts=1671552777;h1=old;h1=new')).toEqual(['old', 'new']);
+    });
+
+    it('should throw on missing h1 signature', () => {
+      expect(() => provider.extractSignatures('ts=1671552777')).toThrow('No h1 signature found');
+    });
+  });
+
+  describe('parseTimestamp', () => {
+    it('should parse timestamp from header', () => {
+      expect(provider.parseTimestamp('ts=1671552777;h1=abc').getTime()).toBe(1671552777000);
+    });
+
+    it('should throw on missing timestamp', () => {
+      expect(() => provider.parseTimestamp('h1=abc')).toThrow('No timestamp found');
+    });
+  });
+
+  describe('extractTimestamp', () => {
+    const context = { method: 'POST', url: 'https://example.com', body: {}, headers: {} };
+
+    it('should read the ts part', () => {
+      expect(provider.extractTimestamp(context, 'ts=1671552777;h1=abc')?.getTime()).toBe(
+        1671552777000
+      );
+    });
+
+    it('should return undefined without ts part', () => {
+      expect(provider.extractTimestamp(context, 'h1=abc')).toBeUndefined();
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should compute correct signature', () => {
+      const payload = '{"event_type":"transaction.completed"}';
+      const signature = provider.computeSignature(
+        Buffer.from(payload),
+        secret,
+        new Date(1671552777 * 1000)
+      );
+
+      const expected = createPaddleSignature(payload, secret, 1671552777).split('h1=')[1];
+      expect(signature).toBe(expected);
+    });
+
+    it('should throw without timestamp', () => {
+      expect(() => provider.computeSignature(Buffer.from('{}'), secret)).toThrow(
+        'Timestamp is required'
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept any matching h1 signature', () => {
+      const payload = '{"event_type":"subscription.created"}';
+      const header = createPaddleSignature(payload, secret, 1671552777);
+      const signatures = provider.extractSignatures(`${header};h1=${'a'.repeat(64)}`);
+
+      expect(signatures).toHaveLength(2);
+      expect(
+        provider.verify(signatures, Buffer.from(payload), secret, new Date(1671552777 * 1000))
+      ).toBe(true);
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should extract event_type from body', () => {
+      expect(provider.extractEventType({ event_type: 'transaction.completed' })).toBe(
+        'transaction.completed'
+      );
+    });
+
+    it('should return undefined for missing event_type', () => {
+      expect(provider.extractEventType({ type: 'transaction.completed' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { createPublicKey } from 'crypto';
+import { SendGridProvider } from '../../src/providers/sendgrid.js';
+import { createEcdsaKeyPair, createSendGridSignature } from '../helpers.js';
+
+describe('SendGridProvider', () => {
+  const provider = new SendGridProvider();
+  const { publicKey, privateKey } = createEcdsaKeyPair();
+  const timestamp = 1234567890;
+  const context = {
+    method: 'POST',
+    url: 'http://localhost/sendgrid',
+    body: [],
+    headers: { 'x-twilio-email-event-webhook-timestamp': String(timestamp) },
+  };
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('sendgrid');
+      expect(provider.signatureHeader).toBe('x-twilio-email-event-webhook-signature');
+      expect(provider.timestampHeader).toBe('x-twilio-email-event-webhook-timestamp');
+      expect(provider.algorithm).toBe('ecdsa-sha256');
+      expect(provider.signatureEncoding).toBe('base64');
+    });
+  });
+
+  describe('buildSignedPayload', () => {
+    it('should prefix body with the raw timestamp header', () => {
+      const payload = provider.buildSignedPayload(Buffer.from('[]'), undefined, context);
+      expect(payload.toString()).toBe(`${timestamp}[]`);
+    });
+
+    it('should throw without timestamp header', () => {
+      expect(() =>
+        provider.buildSignedPayload(Buffer.from('[]'), undefined, { ...context, headers: {} })
+      ).toThrow('Timestamp is required');
+    });
+  });
+
+  describe('verify', () => {
+    const payload = '[{"event":"delivered","email":"a@example.com"}]';
+
+    it('should verify valid signature with base64 DER public key', () => {
+      const signature = createSendGridSignature(payload, privateKey, timestamp);
+
+      expect(
+        provider.verify([signature], Buffer.from(payload), publicKey, undefined, context)
+      ).toBe(true);
+    });
+
+    it('should verify valid signature with PEM public key', () => {
+      const pem = createPublicKey({
+        key: Buffer.from(publicKey, 'base64'),
+        format: 'der',
+        type: 'spki',
+      })
+        .export({ format: 'pem', type: 'spki' })
+        .toString();
+      const signature = createSendGridSignature(payload, privateKey, timestamp);
+
+      expect(provider.verify([signature], Buffer.from(payload), pem, undefined, context)).toBe(
+        true
+      );
+    });
+
+    it('should reject signature over a different timestamp', () => {
+      const signature = createSendGridSignature(payload, privateKey, timestamp + 1);
+
+      expect(
+        provider.verify([signature], Buffer.from(payload), publicKey, undefined, context)
+      ).toBe(false);
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should return the shared event type of a batch', () => {
+      const body = [{ event: 'open' }, { event: 'open' }] as unknown as Record<string, unknown>;
+      expect(provider.extractEventType(body)).toBe('open');
+    });
+
+    it('should return undefined for mixed batches', () => {
+      const body = [{ event: 'open' }, { event: 'click' }] as unknown as Record<string, unknown>;
+      expect(provider.extractEventType(body)).toBeUndefined();
+    });
+  });
+});
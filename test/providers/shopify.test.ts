@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { ShopifyProvider } from '../../src/providers/shopify.js';
-import { createShopifySignature } from '../helpers.js';
+import { createShopifyQuery, createShopifySignature } from '../helpers.js';
 
 describe('ShopifyProvider', () => {
   const provider = new ShopifyProvider();
@@ -50,8 +50,98 @@ describe('ShopifyProvider', () => {
   });
 
   describe('extractEventType', () => {
-    it('should return undefined (topic is in header)', () => {
+    it('should read the topic from X-Shopify-Topic', () => {
+      const context = {
+        method: 'POST',
+        url: '',
+        body: {},
+        headers: { 'x-shopify-topic': 'orders/create' },
+      };
+
+      expect(provider.extractEventType({ id: 123 }, context)).toBe('orders/create');
+    });
+
+    it('should return undefined without request context', () => {
       expect(provider.extractEventType({ id: 123 })).toBeUndefined();
     });
   });
+
+  describe('extractMetadata', () => {
+    it('should read the delivery headers', () => {
+      const headers = {
+        'x-shopify-topic': 'orders/create',
+        'x-shopify-shop-domain': 'demo.myshopify.com',
+        'x-shopify-webhook-id': 'b54557e4-bdd9-4b37-8a5f-bf7d70bcd043',
+        'x-shopify-api-version': '2024-01',
+        'x-shopify-triggered-at': '2024-01-15T10:00:00.000Z',
+      };
+
+      expect(provider.extractMetadata({ method: 'POST', url: '', body: {}, headers })).toEqual({
+        topic: 'orders/create',
+        shopDomain: 'demo.myshopify.com',
+        webhookId: 'b54557e4-bdd9-4b37-8a5f-bf7d70bcd043',
+        apiVersion: '2024-01',
+        triggeredAt: '2024-01-15T10:00:00.000Z',
+      });
+    });
+
+    it('should omit missing headers', () => {
+      const headers = { 'x-shopify-topic': 'app/uninstalled' };
+
+      expect(provider.extractMetadata({ method: 'POST', url: '', body: {}, headers })).toEqual({
+        topic: 'app/uninstalled',
+      });
+    });
+  });
+
+  describe('verifyQuery', () => {
+    it('should verify the documented OAuth example', () => {
+      const params = new URLSearchParams(
+        'code=0907a61c0c8d55e99db179b68161bc00' +
+          '&hmac=700e2dadb827fcc8609e9d5ce208b2e9cdaab9df07390d2cbca10d7c328fc4bf' +
+          '&shop=some-shop.myshopify.com&state=0.6784241404160823&timestamp=1337178173'
+      );
+
+      expect(provider.verifyQuery(params, 'hush', 'oauth')).toBe(true);
+      expect(provider.verifyQuery(params, 'wrong', 'oauth')).toBe(false);
+    });
+
+    it('should format repeated OAuth parameters as arrays', () => {
+      const params = new URLSearchParams('ids[]=1&ids[]=2&shop=a.myshopify.com');
+
+      expect(provider.buildQueryMessage(params, 'oauth')).toBe(
+        'ids=["1", "2"]&shop=a.myshopify.com'
+      );
+    });
+
+    it('should escape & and % in OAuth parameters', () => {
+      const params = new URLSearchParams('state=a%26b%25&shop=a.myshopify.com');
+
+      expect(provider.buildQueryMessage(params, 'oauth')).toBe(
+        'shop=a.myshopify.com&state=a%26b%25'
+      );
+    });
+
+    it('should verify app proxy signatures', () => {
+      const query = createShopifyQuery(
+        {
+          extra: ['1', '2'],
+          logged_in_customer_id: '1',
+          path_prefix: '/apps/awesome_reviews',
+          shop: 'shop-name.myshopify.com',
+          timestamp: '1317327555',
+        },
+        secret,
+        'app-proxy'
+      );
+      const params = new URLSearchParams(query);
+
+      expect(provider.buildQueryMessage(params, 'app-proxy')).toBe(
+        'extra=1,2logged_in_customer_id=1path_prefix=/apps/awesome_reviews' +
+          'shop=shop-name.myshopify.comtimestamp=1317327555'
+      );
+      expect(provider.verifyQuery(params, secret, 'app-proxy')).toBe(true);
+      expect(provider.verifyQuery(params, secret, 'oauth')).toBe(false);
+    });
+  });
 });
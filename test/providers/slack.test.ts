@@ -79,5 +79,68 @@ describe('SlackProvider', () => {
     it('should return undefined for missing type', () => {
       expect(provider.extractEventType({ data: {} })).toBeUndefined();
     });
+
+    it('should use the slash command', () => {
+      expect(provider.extractEventType({ command: '/deploy', text: 'api' })).toBe('/deploy');
+    });
+
+    it('should use the callback_id of interactive payloads', () => {
+      const payload = JSON.stringify({ type: 'shortcut', callback_id: 'open_ticket' });
+
+      expect(provider.extractEventType({ payload })).toBe('open_ticket');
+    });
+
+    it('should use the view callback_id of view submissions', () => {
+      const payload = JSON.stringify({ type: 'view_submission', view: { callback_id: 'survey' } });
+
+      expect(provider.extractEventType({ payload })).toBe('survey');
+    });
+
+    it('should fall back to the payload type', () => {
+      const payload = JSON.stringify({ type: 'block_actions', actions: [] });
+
+      expect(provider.extractEventType({ payload })).toBe('block_actions');
+    });
+  });
+
+  describe('extractPayload', () => {
+    it('should decode the payload field', () => {
+      expect(provider.extractPayload({ payload: '{"type":"block_actions"}' })).toEqual({
+        type: 'block_actions',
+      });
+    });
+
+    it('should ignore invalid JSON', () => {
+      expect(provider.extractPayload({ payload: '{' })).toBeUndefined();
+    });
+  });
+
+  describe('extractMetadata', () => {
+    it('should read the retry headers', () => {
+      const headers = { 'x-slack-retry-num': '1', 'x-slack-retry-reason': 'http_timeout' };
+
+      expect(provider.extractMetadata({ method: 'POST', url: '', body: {}, headers })).toEqual({
+        retryNum: '1',
+        retryReason: 'http_timeout',
+      });
+    });
+  });
+
+  describe('getAutoResponse', () => {
+    it('should answer url_verification challenges', () => {
+      const body = {
+        type: 'url_verification',
+        challenge: '3eZbrw1aBm2rZgRNFdxV2595E9CY3gmdALWMmHkvFXO7tYXAYM8P',
+      };
+
+      expect(provider.getAutoResponse(body)).toEqual({
+        contentType: 'text/plain',
+        body: body.challenge,
+      });
+    });
+
+    it('should not answer events', () => {
+      expect(provider.getAutoResponse({ type: 'event_callback' })).toBeUndefined();
+    });
   });
 });
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SnsProvider, parseSnsMessage } from '../../src/providers/sns.js';
+import { KeyUnavailableError } from '../../src/errors.js';
+import type { SnsCertificateCache } from '../../src/types.js';
+import { createRsaKeyPair, createSnsMessage } from '../helpers.js';
+
+describe('SnsProvider', () => {
+  const { publicKey, privateKey } = createRsaKeyPair();
+  const fetchCertificate = () => Promise.resolve(publicKey);
+
+  const verify = (provider: SnsProvider, body: Record<string, string>) => {
+    const context = { method: 'POST', url: 'http://localhost/sns', body, headers: {} };
+    const signature = provider.readSignature(context) ?? '';
+    return provider.verify([signature], Buffer.from(JSON.stringify(body)), '', undefined, context);
+  };
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      const provider = new SnsProvider();
+
+      expect(provider.name).toBe('sns');
+      expect(provider.timestampField).toBe('Timestamp');
+      expect(provider.timestampFormat).toBe('iso8601');
+      expect(provider.requiresSecret).toBe(false);
+    });
+  });
+
+  describe('readSignature', () => {
+    it('should read the signature from the body', () => {
+      const provider = new SnsProvider();
+      const context = { method: 'POST', url: '', body: { Signature: 'abc' }, headers: {} };
+
+      expect(provider.readSignature(context)).toBe('abc');
+    });
+  });
+
+  describe('extractTimestamp', () => {
+    it('should read the Timestamp field', () => {
+      const provider = new SnsProvider();
+      const body = { Timestamp: '2024-01-01T00:00:00.000Z' };
+      const context = { method: 'POST', url: '', body, headers: {} };
+
+      expect(provider.extractTimestamp(context, 'abc')?.toISOString()).toBe(body.Timestamp);
+    });
+  });
+
+  describe('buildStringToSign', () => {
+    it('should skip a missing Subject', () => {
+      const provider = new SnsProvider();
+      const message = parseSnsMessage(createSnsMessage({}, privateKey));
+
+      expect(message && provider.buildStringToSign(message)).not.toContain('Subject');
+    });
+  });
+
+  describe('verify', () => {
+    it('should verify SignatureVersion 1 messages', async () => {
+      const provider = new SnsProvider({ fetchCertificate });
+
+      expect(await verify(provider, createSnsMessage({}, privateKey, '1'))).toBe(true);
+    });
+
+    it('should verify SignatureVersion 2 messages', async () => {
+      const provider = new SnsProvider({ fetchCertificate });
+      const body = createSnsMessage({ Subject: 'Order created' }, privateKey, '2');
+
+      expect(await verify(provider, body)).toBe(true);
+    });
+
+    it('should reject tampered messages', async () => {
+      const provider = new SnsProvider({ fetchCertificate });
+      const body = { ...createSnsMessage({}, privateKey), Message: 'tampered' };
+
+      expect(await verify(provider, body)).toBe(false);
+    });
+
+    it('should reject certificates not served by SNS', async () => {
+      const fetch = vi.fn(fetchCertificate);
+      const provider = new SnsProvider({ fetchCertificate: fetch });
+
+      for (const url of [
+        'https://evil.example.com/cert.pem',
+        'http://sns.us-east-1.amazonaws.com/cert.pem',
+        'https://sns.us-east-1.amazonaws.com:8443/cert.pem',
+        'https://sns.us-east-1.amazonaws.com.evil.com/cert.pem',
+        'https://sns.us-east-1.amazonaws.com/cert.txt',
+      ]) {
+        const body = createSnsMessage({ SigningCertURL: url }, privateKey);
+        expect(await verify(provider, body)).toBe(false);
+      }
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown signature versions', async () => {
+      const provider = new SnsProvider({ fetchCertificate });
+      const body = { ...createSnsMessage({}, privateKey), SignatureVersion: '3' };
+
+      expect(await verify(provider, body)).toBe(false);
+    });
+
+    it('should restrict topics when topicArns is set', async () => {
+      const provider = new SnsProvider({
+        fetchCertificate,
+        topicArns: ['arn:aws:sns:us-east-1:123456789012:other'],
+      });
+
+      expect(await verify(provider, createSnsMessage({}, privateKey))).toBe(false);
+    });
+
+    it('should fetch each certificate once through the cache', async () => {
+      const certificates = new Map<string, string>();
+      const certificateCache: SnsCertificateCache = {
+        get: (url) => Promise.resolve(certificates.get(url)),
+        set: (url, certificate) => {
+          certificates.set(url, certificate);
+          return Promise.resolve();
+        },
+      };
+      const fetch = vi.fn(fetchCertificate);
+      const provider = new SnsProvider({ fetchCertificate: fetch, certificateCache });
+
+      await verify(provider, createSnsMessage({}, privateKey));
+      await verify(provider, createSnsMessage({ MessageId: 'second' }, privateKey));
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(certificates.size).toBe(1);
+    });
+
+    it('should share concurrent certificate downloads', async () => {
+      const certificateCache: SnsCertificateCache = {
+        get: () => Promise.resolve(undefined),
+        set: () => Promise.resolve(),
+      };
+      const fetch = vi.fn(fetchCertificate);
+      const provider = new SnsProvider({ fetchCertificate: fetch, certificateCache });
+
+      const results = await Promise.all(
+        ['first', 'second', 'third'].map((MessageId) =>
+          verify(provider, createSnsMessage({ MessageId }, privateKey))
+        )
+      );
+
+      expect(results).toEqual([true, true, true]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw KeyUnavailableError when the certificate cannot be downloaded', async () => {
+      const certificateCache: SnsCertificateCache = {
+        get: () => Promise.resolve(undefined),
+        set: () => Promise.resolve(),
+      };
+      const fetch = vi.fn(() => Promise.reject(new Error('ECONNRESET')));
+      const provider = new SnsProvider({ fetchCertificate: fetch, certificateCache });
+
+      await expect(verify(provider, createSnsMessage({}, privateKey))).rejects.toThrow(
+        KeyUnavailableError
+      );
+      await expect(
+        verify(provider, createSnsMessage({ MessageId: 'retry' }, privateKey))
+      ).rejects.toThrow(KeyUnavailableError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should download certificates with a timeout', async () => {
+      const fetch = vi.fn(() => Promise.reject(new Error('ETIMEDOUT')));
+      vi.stubGlobal('fetch', fetch);
+      const message = createSnsMessage(
+        { SigningCertURL: 'https://sns.eu-west-1.amazonaws.com/SimpleNotificationService-x.pem' },
+        privateKey
+      );
+
+      try {
+        await expect(verify(new SnsProvider(), message)).rejects.toThrow(KeyUnavailableError);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+      expect(fetch).toHaveBeenCalledWith(message.SigningCertURL, {
+        signal: expect.any(AbortSignal),
+      });
+    });
+  });
+
+  describe('extractNonce', () => {
+    it('should use the MessageId', () => {
+      const provider = new SnsProvider();
+      const body = createSnsMessage({ MessageId: 'msg-1' }, privateKey);
+
+      expect(provider.extractNonce({ method: 'POST', url: '', body, headers: {} })).toBe('msg-1');
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should use the message type', () => {
+      const provider = new SnsProvider();
+      const body = createSnsMessage({ Type: 'UnsubscribeConfirmation' }, privateKey);
+
+      expect(provider.extractEventType(body)).toBe('UnsubscribeConfirmation');
+    });
+  });
+
+  describe('getAutoResponse', () => {
+    const confirmation = createSnsMessage(
+      {
+        Type: 'SubscriptionConfirmation',
+        Token: 'token',
+        SubscribeURL: 'https://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription',
+      },
+      privateKey
+    );
+    const context = { method: 'POST', url: '', body: confirmation, headers: {} };
+
+    it('should not confirm subscriptions by default', async () => {
+      const provider = new SnsProvider();
+
+      expect(await provider.getAutoResponse(confirmation)).toBeUndefined();
+    });
+
+    it('should confirm subscriptions with the configured function', async () => {
+      const confirmSubscription = vi.fn();
+      const provider = new SnsProvider({ confirmSubscription });
+
+      expect(await provider.getAutoResponse(confirmation)).toEqual({ body: { confirmed: true } });
+      expect(confirmSubscription).toHaveBeenCalledWith(parseSnsMessage(context.body));
+    });
+
+    it('should refuse SubscribeURLs not served by SNS', async () => {
+      const provider = new SnsProvider({ confirmSubscription: true });
+      const body = { ...confirmation, SubscribeURL: 'https://evil.example.com/' };
+
+      await expect(provider.getAutoResponse(body)).rejects.toThrow('Invalid SNS SubscribeURL');
+    });
+
+    it('should ignore notifications', async () => {
+      const provider = new SnsProvider({ confirmSubscription: vi.fn() });
+
+      expect(await provider.getAutoResponse(createSnsMessage({}, privateKey))).toBeUndefined();
+    });
+  });
+});
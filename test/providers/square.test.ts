@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { SquareProvider } from '../../src/providers/square.js';
+import { createSquareSignature } from '../helpers.js';
+
+describe('SquareProvider', () => {
+  const secret = 'square_signature_key';
+  const notificationUrl = 'https://example.com/webhooks/square';
+  const payload = '{"type":"payment.created","event_id":"evt-1"}';
+  const context = {
+    method: 'POST',
+    url: 'http://internal:3000/webhooks/square',
+    body: JSON.parse(payload) as unknown,
+    headers: {},
+  };
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      const provider = new SquareProvider();
+
+      expect(provider.name).toBe('square');
+      expect(provider.signatureHeader).toBe('x-square-hmacsha256-signature');
+      expect(provider.algorithm).toBe('sha256');
+      expect(provider.signatureEncoding).toBe('base64');
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should sign the configured notification URL', () => {
+      const provider = new SquareProvider({ notificationUrl });
+
+      expect(provider.computeSignature(Buffer.from(payload), secret, undefined, context)).toBe(
+        createSquareSignature(notificationUrl, payload, secret)
+      );
+    });
+
+    it('should default to the request URL', () => {
+      const provider = new SquareProvider();
+
+      expect(provider.computeSignature(Buffer.from(payload), secret, undefined, context)).toBe(
+        createSquareSignature(context.url, payload, secret)
+      );
+    });
+
+    it('should throw without a URL', () => {
+      expect(() => new SquareProvider().computeSignature(Buffer.from(payload), secret)).toThrow(
+        'Notification URL is required'
+      );
+    });
+  });
+
+  describe('extractNonce', () => {
+    it('should use the event_id', () => {
+      expect(new SquareProvider().extractNonce(context)).toBe('evt-1');
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should extract type from body', () => {
+      expect(new SquareProvider().extractEventType({ type: 'payment.updated' })).toBe(
+        'payment.updated'
+      );
+    });
+  });
+});
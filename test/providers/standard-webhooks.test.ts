@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { StandardWebhooksProvider } from '../../src/providers/standard-webhooks.js';
+import { createStandardWebhooksSignature } from '../helpers.js';
+
+describe('StandardWebhooksProvider', () => {
+  const provider = new StandardWebhooksProvider();
+  const secret = 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw';
+  const timestamp = 1234567890;
+  const headers = { 'webhook-id': 'msg_123', 'webhook-timestamp': String(timestamp) };
+  const context = { method: 'POST', url: 'http://localhost/webhook', body: {}, headers };
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('standard-webhooks');
+      expect(provider.signatureHeader).toBe('webhook-signature');
+      expect(provider.timestampHeader).toBe('webhook-timestamp');
+      expect(provider.algorithm).toBe('sha256');
+      expect(provider.signatureEncoding).toBe('base64');
+    });
+  });
+
+  describe('readSignatureHeader', () => {
+    it('should read webhook-signature header', () => {
+      expect(provider.readSignatureHeader({ 'webhook-signature': 'v1,abc' })).toBe('v1,abc');
+    });
+
+    it('should fall back to svix-signature header', () => {
+      expect(provider.readSignatureHeader({ 'svix-signature': 'v1,abc' })).toBe('v1,abc');
+    });
+  });
+
+  describe('extractSignatures', () => {
+    it('should extract every v1 signature', () => {
+      expect(provider.extractSignatures('v1,abc v1a,ignored v1,def')).toEqual(['abc', 'def']);
+    });
+
+    it('should return the first signature from extractSignature', () => {
+      expect(provider.extractSignature('v1,abc v1,def')).toBe('abc');
+    });
+
+    it('should throw when no v1 signature is present', () => {
+      expect(() => provider.extractSignatures('v1a,abc')).toThrow('No v1 signature found');
+    });
+  });
+
+  describe('extractTimestamp', () => {
+    it('should read webhook-timestamp header', () => {
+      expect(provider.extractTimestamp(context, '')?.getTime()).toBe(timestamp * 1000);
+    });
+
+    it('should fall back to svix-timestamp header', () => {
+      const svixContext = { ...context, headers: { 'svix-timestamp': String(timestamp) } };
+      expect(provider.extractTimestamp(svixContext, '')?.getTime()).toBe(timestamp * 1000);
+    });
+  });
+
+  describe('extractNonce', () => {
+    it('should use the message id', () => {
+      expect(provider.extractNonce(context)).toBe('msg_123');
+      expect(provider.extractNonce({ ...context, headers: { 'svix-id': 'msg_456' } })).toBe(
+        'msg_456'
+      );
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should compute correct signature with decoded whsec_ key', () => {
+      const payload = '{"type":"user.created"}';
+
+      const signature = provider.computeSignature(
+        Buffer.from(payload),
+        secret,
+        new Date(timestamp * 1000),
+        context
+      );
+
+      const expected = createStandardWebhooksSignature('msg_123', payload, secret, timestamp);
+      expect(`v1,${signature}`).toBe(expected);
+    });
+
+    it('should accept secret without whsec_ prefix', () => {
+      const payload = '{"type":"user.created"}';
+      const date = new Date(timestamp * 1000);
+
+      expect(provider.computeSignature(Buffer.from(payload), secret.slice(6), date, context)).toBe(
+        provider.computeSignature(Buffer.from(payload), secret, date, context)
+      );
+    });
+
+    it('should throw without timestamp', () => {
+      expect(() => provider.computeSignature(Buffer.from(''), secret, undefined, context)).toThrow(
+        'Timestamp is required'
+      );
+    });
+
+    it('should throw without message id', () => {
+      expect(() =>
+        provider.computeSignature(Buffer.from(''), secret, new Date(), { ...context, headers: {} })
+      ).toThrow('Message id is required');
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept any matching signature in the list', () => {
+      const payload = '{"type":"email.sent"}';
+      const date = new Date(timestamp * 1000);
+      const valid = createStandardWebhooksSignature('msg_123', payload, secret, timestamp);
+      const header = `v1,${Buffer.alloc(32).toString('base64')} ${valid}`;
+
+      const signatures = provider.extractSignatures(header);
+      expect(provider.verify(signatures, Buffer.from(payload), secret, date, context)).toBe(true);
+    });
+
+    it('should reject when no signature matches', () => {
+      const date = new Date(timestamp * 1000);
+      const signatures = [Buffer.alloc(32).toString('base64')];
+
+      expect(provider.verify(signatures, Buffer.from('{}'), secret, date, context)).toBe(false);
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should extract type from body', () => {
+      expect(provider.extractEventType({ type: 'user.created' })).toBe('user.created');
+    });
+
+    it('should return undefined for missing type', () => {
+      expect(provider.extractEventType({ data: {} })).toBeUndefined();
+    });
+  });
+});
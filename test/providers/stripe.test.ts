@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
 import { StripeProvider } from '../../src/providers/stripe.js';
+import { LivemodeMismatchError } from '../../src/errors.js';
 import { createStripeSignature, getCurrentTimestamp } from '../helpers.js';
 
 describe('StripeProvider', () => {
@@ -33,6 +35,21 @@ describe('StripeProvider', () => {
     });
   });
 
+  describe('extractSignatures', () => {
+    it('should extract every v1 signature', () => {
+      const header = 't=1234567890,v1=first,v1=second,v0=old';
+      expect(provider.extractSignatures(header)).toEqual(['first', 'second']);
+    });
+
+    it('should reject v0 signatures when rejectV0 is set', () => {
+      const strict = new StripeProvider({ rejectV0: true });
+      expect(() => strict.extractSignatures('t=1234567890,v1=abc,v0=old')).toThrow(
+        'v0 signatures are not accepted'
+      );
+      expect(strict.extractSignatures('t=1234567890,v1=abc')).toEqual(['abc']);
+    });
+  });
+
   describe('parseTimestamp', () => {
     it('should parse timestamp from header', () => {
       const header = 't=1234567890,v1=abc123';
@@ -46,6 +63,20 @@ describe('StripeProvider', () => {
     });
   });
 
+  describe('extractTimestamp', () => {
+    const context = { method: 'POST', url: 'https://example.com', body: {}, headers: {} };
+
+    it('should read the t part', () => {
+      expect(provider.extractTimestamp(context, 't=1234567890,v1=abc')?.getTime()).toBe(
+        1234567890000
+      );
+    });
+
+    it('should return undefined without t part', () => {
+      expect(provider.extractTimestamp(context, 'v1=abc')).toBeUndefined();
+    });
+  });
+
   describe('computeSignature', () => {
     it('should compute correct signature', () => {
       const payload = '{"type":"test"}';
@@ -60,6 +91,18 @@ describe('StripeProvider', () => {
       expect(signature).toBe(expectedSig);
     });
 
+    it('should sign the raw body bytes', () => {
+      // Not valid UTF-8, so decoding the body to a string would change the signed bytes
+      const rawBody = Buffer.from([0x7b, 0xff, 0xfe, 0x7d]);
+      const timestamp = new Date(1234567890 * 1000);
+
+      const expected = createHmac('sha256', secret)
+        .update(Buffer.concat([Buffer.from('1234567890.'), rawBody]))
+        .digest('hex');
+
+      expect(provider.computeSignature(rawBody, secret, timestamp)).toBe(expected);
+    });
+
     it('should throw without timestamp', () => {
       const payload = '{"type":"test"}';
       expect(() => provider.computeSignature(Buffer.from(payload), secret)).toThrow(
@@ -92,6 +135,49 @@ describe('StripeProvider', () => {
     });
   });
 
+  describe('verify', () => {
+    const payload = '{"id":"evt_1","livemode":false}';
+    const timestamp = new Date(1234567890 * 1000);
+    const signature = createStripeSignature(payload, secret, 1234567890).split('v1=')[1] ?? '';
+    const context = { method: 'POST', url: '', body: JSON.parse(payload) as unknown, headers: {} };
+
+    it('should accept any matching signature', () => {
+      expect(
+        provider.verify(['a'.repeat(64), signature], Buffer.from(payload), secret, timestamp)
+      ).toBe(true);
+    });
+
+    it('should accept events of the required livemode', () => {
+      const test = new StripeProvider({ livemode: false });
+      expect(test.verify([signature], Buffer.from(payload), secret, timestamp, context)).toBe(true);
+    });
+
+    it('should throw LivemodeMismatchError for other events', () => {
+      const live = new StripeProvider({ livemode: true });
+      expect(() =>
+        live.verify([signature], Buffer.from(payload), secret, timestamp, context)
+      ).toThrow(LivemodeMismatchError);
+    });
+
+    it('should not check livemode of invalid signatures', () => {
+      const live = new StripeProvider({ livemode: true });
+      expect(live.verify(['a'.repeat(64)], Buffer.from(payload), secret, timestamp, context)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('extractMetadata', () => {
+    it('should read id, account and livemode', () => {
+      const body = { id: 'evt_1', account: 'acct_1', livemode: false, type: 'charge.succeeded' };
+      expect(provider.extractMetadata({ method: 'POST', url: '', body, headers: {} })).toEqual({
+        id: 'evt_1',
+        account: 'acct_1',
+        livemode: false,
+      });
+    });
+  });
+
   describe('extractEventType', () => {
     it('should extract type from body', () => {
       expect(provider.extractEventType({ type: 'payment_intent.succeeded' })).toBe(
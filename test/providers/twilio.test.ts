@@ -1,10 +1,13 @@
 import { describe, it, expect } from 'vitest';
+import { createHash, createHmac } from 'crypto';
 import { TwilioProvider } from '../../src/providers/twilio.js';
 import { createTwilioSignature } from '../helpers.js';
 
 describe('TwilioProvider', () => {
   const provider = new TwilioProvider();
   const secret = 'twilio_auth_token';
+  const url = 'https://example.com/webhooks/twilio?foo=bar';
+  const params = { CallSid: 'CA123', From: '+14158675310', Body: 'Hello' };
 
   describe('configuration', () => {
     it('should have correct config', () => {
@@ -24,25 +27,113 @@ describe('TwilioProvider', () => {
   });
 
   describe('computeSignature', () => {
-    it('should compute correct base64 SHA1 signature', () => {
-      const payload = 'AccountSid=AC123&Body=Hello';
+    it('should sign URL followed by sorted parameters', () => {
+      const signature = provider.computeSignature(Buffer.from(''), secret, undefined, {
+        url,
+        body: params,
+        headers: {},
+      });
 
-      const signature = provider.computeSignature(Buffer.from(payload), secret);
-      const expected = createTwilioSignature(payload, secret);
+      expect(signature).toBe(createTwilioSignature(url, params, secret));
+    });
+
+    it('should sign repeated parameters in sorted order', () => {
+      const signature = provider.computeSignature(Buffer.from(''), secret, undefined, {
+        url,
+        body: { To: ['+2', '+1'] },
+        headers: {},
+      });
+      const expected = createHmac('sha1', secret).update(`${url}To+1To+2`).digest('base64');
 
       expect(signature).toBe(expected);
     });
+
+    it('should throw without request context', () => {
+      expect(() => provider.computeSignature(Buffer.from(''), secret)).toThrow(
+        'Request context is required'
+      );
+    });
   });
 
-  describe('verifySignature', () => {
-    it('should verify valid signature', () => {
-      const payload = 'test payload';
-      const signature = createTwilioSignature(payload, secret);
-      const expected = provider.computeSignature(Buffer.from(payload), secret);
+  describe('verify', () => {
+    it('should verify form callback', () => {
+      const signature = createTwilioSignature(url, params, secret);
+
+      expect(
+        provider.verify([signature], Buffer.from(''), secret, undefined, {
+          url,
+          body: params,
+          headers: {},
+        })
+      ).toBe(true);
+    });
+
+    it('should reject tampered parameters', () => {
+      const signature = createTwilioSignature(url, params, secret);
+      const body = { ...params, Body: 'Tampered' };
+
+      expect(
+        provider.verify([signature], Buffer.from(''), secret, undefined, {
+          method: 'POST',
+          url,
+          body,
+          headers: {},
+        })
+      ).toBe(false);
+    });
+
+    it('should accept URL signed without the port', () => {
+      const signature = createTwilioSignature(url, params, secret);
+      const context = {
+        method: 'POST',
+        url: 'https://example.com:443/webhooks/twilio?foo=bar',
+        body: params,
+        headers: {},
+      };
 
-      expect(provider.verifySignature(signature, expected)).toBe(true);
+      expect(provider.verify([signature], Buffer.from(''), secret, undefined, context)).toBe(true);
     });
 
+    it('should accept URL signed with the default port', () => {
+      const signedUrl = 'https://example.com:443/webhooks/twilio?foo=bar';
+      const signature = createTwilioSignature(signedUrl, params, secret);
+
+      expect(
+        provider.verify([signature], Buffer.from(''), secret, undefined, {
+          url,
+          body: params,
+          headers: {},
+        })
+      ).toBe(true);
+    });
+
+    it('should verify JSON callback with bodySHA256', () => {
+      const rawBody = Buffer.from(JSON.stringify({ event: 'call.completed' }));
+      const hash = createHash('sha256').update(rawBody).digest('hex');
+      const jsonUrl = `https://example.com/webhooks/twilio?bodySHA256=${hash}`;
+      const signature = createTwilioSignature(jsonUrl, {}, secret);
+      const context = {
+        method: 'POST',
+        url: jsonUrl,
+        body: { event: 'call.completed' },
+        headers: {},
+      };
+
+      expect(provider.verify([signature], rawBody, secret, undefined, context)).toBe(true);
+    });
+
+    it('should reject JSON callback when body hash does not match', () => {
+      const rawBody = Buffer.from('{"event":"call.completed"}');
+      const hash = createHash('sha256').update('{"event":"other"}').digest('hex');
+      const jsonUrl = `https://example.com/webhooks/twilio?bodySHA256=${hash}`;
+      const signature = createTwilioSignature(jsonUrl, {}, secret);
+      const context = { method: 'POST', url: jsonUrl, body: {}, headers: {} };
+
+      expect(provider.verify([signature], rawBody, secret, undefined, context)).toBe(false);
+    });
+  });
+
+  describe('verifySignature', () => {
     it('should reject invalid signature', () => {
       expect(provider.verifySignature('invalid', 'expected')).toBe(false);
     });
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { TwitchProvider } from '../../src/providers/twitch.js';
+import { createTwitchSignature } from '../helpers.js';
+
+describe('TwitchProvider', () => {
+  const provider = new TwitchProvider();
+  const secret = 'twitch_eventsub_secret';
+  const timestamp = '2023-07-19T10:11:12.123456789Z';
+  const context = (type = 'notification') => ({
+    method: 'POST',
+    url: 'http://localhost/twitch',
+    body: {},
+    headers: {
+      'twitch-eventsub-message-id': 'msg-1',
+      'twitch-eventsub-message-timestamp': timestamp,
+      'twitch-eventsub-message-type': type,
+    },
+  });
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('twitch');
+      expect(provider.signatureHeader).toBe('twitch-eventsub-message-signature');
+      expect(provider.timestampHeader).toBe('twitch-eventsub-message-timestamp');
+      expect(provider.timestampFormat).toBe('iso8601');
+      expect(provider.algorithm).toBe('sha256');
+      expect(provider.signatureEncoding).toBe('hex');
+    });
+  });
+
+  describe('extractSignature', () => {
+    it('should extract signature from header', () => {
+      expect(provider.extractSignature('sha256=abc')).toBe('abc');
+    });
+
+    it('should throw on invalid format', () => {
+      expect(() => provider.extractSignature('abc')).toThrow('Invalid Twitch signature format');
+    });
+  });
+
+  describe('extractTimestamp', () => {
+    it('should parse RFC 3339 timestamp with nanoseconds', () => {
+      expect(provider.extractTimestamp(context(), '')?.toISOString()).toBe(
+        '2023-07-19T10:11:12.123Z'
+      );
+    });
+  });
+
+  describe('extractNonce', () => {
+    it('should use the message id', () => {
+      expect(provider.extractNonce(context())).toBe('msg-1');
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should sign message id, raw timestamp and body', () => {
+      const payload = '{"subscription":{"type":"channel.follow"}}';
+      const expected = createTwitchSignature('msg-1', timestamp, payload, secret);
+
+      expect(
+        `sha256=${provider.computeSignature(Buffer.from(payload), secret, undefined, context())}`
+      ).toBe(expected);
+    });
+
+    it('should throw without message headers', () => {
+      expect(() =>
+        provider.computeSignature(Buffer.from('{}'), secret, undefined, {
+          ...context(),
+          headers: {},
+        })
+      ).toThrow('Message id and timestamp are required');
+    });
+  });
+
+  describe('extractEventType', () => {
+    const body = { subscription: { type: 'channel.follow' } };
+
+    it('should return the subscription type for notifications', () => {
+      expect(provider.extractEventType(body, context())).toBe('channel.follow');
+    });
+
+    it('should return the message type for revocations', () => {
+      expect(provider.extractEventType(body, context('revocation'))).toBe('revocation');
+    });
+  });
+
+  describe('getAutoResponse', () => {
+    it('should echo the challenge for verification messages', () => {
+      expect(
+        provider.getAutoResponse(
+          { challenge: 'pogchamp' },
+          context('webhook_callback_verification')
+        )
+      ).toEqual({ contentType: 'text/plain', body: 'pogchamp' });
+    });
+
+    it('should not respond to notifications', () => {
+      expect(provider.getAutoResponse({ challenge: 'x' }, context())).toBeUndefined();
+    });
+  });
+});
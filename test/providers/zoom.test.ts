@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { ZoomProvider } from '../../src/providers/zoom.js';
+import { createZoomSignature } from '../helpers.js';
+
+describe('ZoomProvider', () => {
+  const provider = new ZoomProvider();
+  const secret = 'zoom_secret_token';
+  const context = { method: 'POST', url: 'http://localhost/zoom', body: {}, headers: {} };
+
+  describe('configuration', () => {
+    it('should have correct config', () => {
+      expect(provider.name).toBe('zoom');
+      expect(provider.signatureHeader).toBe('x-zm-signature');
+      expect(provider.timestampHeader).toBe('x-zm-request-timestamp');
+      expect(provider.algorithm).toBe('sha256');
+      expect(provider.signatureEncoding).toBe('hex');
+    });
+  });
+
+  describe('extractSignature', () => {
+    it('should extract signature from header', () => {
+      expect(provider.extractSignature('v0=abc123')).toBe('abc123');
+    });
+
+    it('should throw on invalid format', () => {
+      expect(() => provider.extractSignature('abc123')).toThrow('Invalid Zoom signature format');
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should compute correct signature', () => {
+      const payload = '{"event":"meeting.started"}';
+      const signature = provider.computeSignature(
+        Buffer.from(payload),
+        secret,
+        new Date(1234567890 * 1000)
+      );
+
+      expect(`v0=${signature}`).toBe(createZoomSignature(payload, secret, 1234567890));
+    });
+
+    it('should throw without timestamp', () => {
+      expect(() => provider.computeSignature(Buffer.from('{}'), secret)).toThrow(
+        'Timestamp is required'
+      );
+    });
+  });
+
+  describe('extractEventType', () => {
+    it('should extract event from body', () => {
+      expect(provider.extractEventType({ event: 'meeting.ended' })).toBe('meeting.ended');
+    });
+  });
+
+  describe('getAutoResponse', () => {
+    it('should answer URL validation with plain and encrypted token', () => {
+      const body = { event: 'endpoint.url_validation', payload: { plainToken: 'qgg8vlvZ' } };
+
+      expect(provider.getAutoResponse(body, context, secret)).toEqual({
+        body: {
+          plainToken: 'qgg8vlvZ',
+          encryptedToken: createHmac('sha256', secret).update('qgg8vlvZ').digest('hex'),
+        },
+      });
+    });
+
+    it('should not respond to other events', () => {
+      expect(
+        provider.getAutoResponse({ event: 'meeting.started' }, context, secret)
+      ).toBeUndefined();
+    });
+  });
+});
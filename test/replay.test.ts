@@ -113,6 +113,73 @@ describe('Replay Protection', () => {
       expect(response1.statusCode).toBe(200);
       expect(response2.statusCode).toBe(200);
     });
+
+    it('should reject duplicates sent in parallel', async () => {
+      let handled = 0;
+      fastify.post(
+        '/webhook/slow',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe' }) },
+        async () => {
+          handled++;
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          return { received: true };
+        }
+      );
+
+      const payload = JSON.stringify({ type: 'test', id: 'evt_parallel' });
+      const signature = createStripeSignature(payload, STRIPE_SECRET, getCurrentTimestamp());
+      const send = () =>
+        fastify.inject({
+          method: 'POST',
+          url: '/webhook/slow',
+          headers: { 'content-type': 'application/json', 'stripe-signature': signature },
+          payload,
+        });
+
+      const responses = await Promise.all([send(), send(), send()]);
+
+      expect(responses.map((response) => response.statusCode).sort()).toEqual([200, 401, 401]);
+      expect(handled).toBe(1);
+    });
+  });
+
+  describe('failed deliveries', () => {
+    const payload = JSON.stringify({ type: 'test', id: 'evt_failed' });
+    const signature = createStripeSignature(payload, STRIPE_SECRET, getCurrentTimestamp());
+    const send = () =>
+      fastify.inject({
+        method: 'POST',
+        url: '/webhook',
+        headers: { 'content-type': 'application/json', 'stripe-signature': signature },
+        payload,
+      });
+
+    it('should keep rejecting retries when the storage cannot delete nonces', async () => {
+      const nonces = new Set<string>();
+      await fastify.register(webhookVerify, {
+        providers: { stripe: STRIPE_SECRET },
+        replayProtection: {
+          enabled: true,
+          storage: {
+            has: (nonce) => Promise.resolve(nonces.has(nonce)),
+            set: (nonce) => {
+              nonces.add(nonce);
+              return Promise.resolve();
+            },
+          },
+        },
+      });
+      fastify.post(
+        '/webhook',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe' }) },
+        async () => {
+          throw new Error('database unavailable');
+        }
+      );
+
+      expect((await send()).statusCode).toBe(500);
+      expect((await send()).statusCode).toBe(401);
+    });
   });
 
   describe('disabled replay protection', () => {
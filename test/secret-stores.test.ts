@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Fastify, { type FastifyInstance } from 'fastify';
+import webhookVerify, {
+  createEnvSecretStore,
+  createFileSecretStore,
+  MissingSecretError,
+  redactSecret,
+  type SecretStore,
+} from '../src/index.js';
+import { createStripeSignature, getCurrentTimestamp } from './helpers.js';
+
+const STRIPE_SECRET = 'whsec_store_test';
+
+describe('Secret stores', () => {
+  describe('createEnvSecretStore', () => {
+    const store = createEnvSecretStore({
+      env: {
+        WEBHOOK_SECRET_STRIPE: 'stripe-secret',
+        WEBHOOK_SECRET_STANDARD_WEBHOOKS: 'whsec_abc',
+        WEBHOOK_SECRET_SHOPIFY__EXAMPLE_MYSHOPIFY_COM: 'shop-secret',
+        WEBHOOK_SECRET_GITHUB: '',
+      },
+    });
+
+    it('should read the prefixed provider variable', () => {
+      expect(store.get('stripe')).toBe('stripe-secret');
+      expect(store.get('standard-webhooks')).toBe('whsec_abc');
+    });
+
+    it('should read tenant variables', () => {
+      expect(store.get('shopify', 'example.myshopify.com')).toBe('shop-secret');
+    });
+
+    it('should treat missing and empty variables as no secret', () => {
+      expect(store.get('github')).toBeUndefined();
+      expect(store.get('slack')).toBeUndefined();
+    });
+
+    it('should use a custom prefix', () => {
+      const custom = createEnvSecretStore({ prefix: 'HOOKS_', env: { HOOKS_SLACK: 'slack' } });
+
+      expect(custom.get('slack')).toBe('slack');
+    });
+  });
+
+  describe('createFileSecretStore', () => {
+    let directory: string;
+    let store: SecretStore;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'webhook-secrets-'));
+      await writeFile(join(directory, 'stripe'), 'stripe-secret\n');
+      await writeFile(join(directory, 'shopify.example.myshopify.com'), 'shop-secret');
+    });
+
+    afterEach(async () => {
+      await store.close?.();
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should read trimmed secret files', async () => {
+      store = createFileSecretStore({ directory, watch: false });
+
+      expect(await store.get('stripe')).toBe('stripe-secret');
+      expect(await store.get('shopify', 'example.myshopify.com')).toBe('shop-secret');
+      expect(await store.get('github')).toBeUndefined();
+    });
+
+    it('should not read outside the directory', async () => {
+      store = createFileSecretStore({ directory, watch: false });
+
+      expect(await store.get('stripe', '../stripe')).toBeUndefined();
+      expect(await store.get('../stripe')).toBeUndefined();
+    });
+
+    it('should reload changed files', async () => {
+      store = createFileSecretStore({ directory });
+      expect(await store.get('stripe')).toBe('stripe-secret');
+
+      const changed = new Promise<string | undefined>((resolve) => {
+        store.subscribe?.(resolve);
+      });
+      await writeFile(join(directory, 'stripe'), 'rotated-secret');
+
+      expect(await changed).toBe('stripe');
+      expect(await store.get('stripe')).toBe('rotated-secret');
+    });
+
+    it('should expire cached missing files', async () => {
+      store = createFileSecretStore({ directory, watch: false, negativeTtl: 0 });
+      expect(await store.get('github')).toBeUndefined();
+
+      await writeFile(join(directory, 'github'), 'github-secret');
+
+      expect(await store.get('github')).toBe('github-secret');
+    });
+
+    it('should evict the oldest files when full', async () => {
+      store = createFileSecretStore({ directory, watch: false, maxEntries: 1 });
+      expect(await store.get('stripe')).toBe('stripe-secret');
+      expect(await store.get('shopify', 'example.myshopify.com')).toBe('shop-secret');
+
+      await writeFile(join(directory, 'stripe'), 'rotated-secret');
+
+      expect(await store.get('stripe')).toBe('rotated-secret');
+    });
+  });
+
+  describe('redactSecret', () => {
+    it('should return a fingerprint without the secret', () => {
+      const redacted = redactSecret(STRIPE_SECRET);
+
+      expect(redacted).toMatch(/^sha256:[0-9a-f]{8}$/);
+      expect(redacted).not.toContain(STRIPE_SECRET);
+    });
+  });
+
+  describe('plugin', () => {
+    let fastify: FastifyInstance;
+
+    beforeEach(() => {
+      fastify = Fastify({ logger: false });
+    });
+
+    afterEach(async () => {
+      await fastify.close();
+    });
+
+    const send = (url: string) => {
+      const payload = JSON.stringify({ type: 'invoice.paid' });
+      return fastify.inject({
+        method: 'POST',
+        url,
+        headers: {
+          'content-type': 'application/json',
+          'stripe-signature': createStripeSignature(payload, STRIPE_SECRET, getCurrentTimestamp()),
+        },
+        payload,
+      });
+    };
+
+    it('should read secrets from the store', async () => {
+      await fastify.register(webhookVerify, {
+        secretStore: createEnvSecretStore({ env: { WEBHOOK_SECRET_STRIPE: STRIPE_SECRET } }),
+      });
+      fastify.post(
+        '/webhook',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe' }) },
+        async () => ({ ok: true })
+      );
+
+      expect((await send('/webhook')).statusCode).toBe(200);
+    });
+
+    it('should read tenant secrets from the store', async () => {
+      await fastify.register(webhookVerify, {
+        secretStore: createEnvSecretStore({
+          env: { WEBHOOK_SECRET_STRIPE__ACME: STRIPE_SECRET },
+        }),
+      });
+      fastify.post(
+        '/webhook/:tenant',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'stripe',
+            tenant: (request) => (request.params as { tenant: string }).tenant,
+          }),
+        },
+        async () => ({ ok: true })
+      );
+
+      expect((await send('/webhook/acme')).statusCode).toBe(200);
+      expect((await send('/webhook/other')).statusCode).toBe(500);
+    });
+
+    it('should not read the store for requests without signature', async () => {
+      const tenants: (string | undefined)[] = [];
+      await fastify.register(webhookVerify, {
+        secretStore: {
+          get: (_provider, tenant) => {
+            tenants.push(tenant);
+            return STRIPE_SECRET;
+          },
+        },
+      });
+      fastify.post(
+        '/webhook/:tenant',
+        {
+          preHandler: fastify.webhookVerify({
+            provider: 'stripe',
+            tenant: (request) => (request.params as { tenant: string }).tenant,
+          }),
+        },
+        async () => ({ ok: true })
+      );
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/forged',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({ type: 'invoice.paid' }),
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(tenants).toEqual([]);
+    });
+
+    it('should prefer providers over the store', async () => {
+      await fastify.register(webhookVerify, {
+        providers: { stripe: STRIPE_SECRET },
+        secretStore: createEnvSecretStore({ env: { WEBHOOK_SECRET_STRIPE: 'other' } }),
+      });
+      fastify.post(
+        '/webhook',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe' }) },
+        async () => ({ ok: true })
+      );
+
+      expect((await send('/webhook')).statusCode).toBe(200);
+    });
+
+    it('should fail startup for missing secrets with secretCheck throw', async () => {
+      await fastify.register(webhookVerify, {
+        providers: { github: [{ secret: 'expired', notAfter: '2020-01-01T00:00:00Z' }] },
+        secretStore: createEnvSecretStore({ env: {} }),
+        secretCheck: 'throw',
+      });
+      fastify.post(
+        '/webhook/stripe',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe' }) },
+        async () => ({ ok: true })
+      );
+      fastify.post(
+        '/webhook/github',
+        { preHandler: fastify.webhookVerify({ provider: 'github' }) },
+        async () => ({ ok: true })
+      );
+      fastify.post(
+        '/webhook/sns',
+        { preHandler: fastify.webhookVerify({ provider: 'sns' }) },
+        async () => ({ ok: true })
+      );
+
+      const error: unknown = await fastify.ready().catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(MissingSecretError);
+      expect((error as MissingSecretError).message).toBe(
+        'Missing secret for provider: stripe, github'
+      );
+    });
+
+    it('should check shopifyVerify routes on startup', async () => {
+      await fastify.register(webhookVerify, { secretCheck: 'throw' });
+      fastify.get(
+        '/shopify/callback',
+        { preHandler: fastify.shopifyVerify({ mode: 'oauth' }) },
+        async () => ({ ok: true })
+      );
+
+      await expect(fastify.ready()).rejects.toThrow('Missing secret for provider: shopify');
+    });
+
+    it('should skip routes with a resolver or a tenant', async () => {
+      await fastify.register(webhookVerify, { secretCheck: 'throw' });
+      fastify.post(
+        '/webhook/resolver',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe', secret: () => undefined }) },
+        async () => ({ ok: true })
+      );
+      fastify.post(
+        '/webhook/tenant',
+        { preHandler: fastify.webhookVerify({ provider: 'github', tenant: () => 'acme' }) },
+        async () => ({ ok: true })
+      );
+
+      await expect(fastify.ready()).resolves.toBeDefined();
+    });
+
+    it('should close the store with fastify', async () => {
+      let closed = false;
+      await fastify.register(webhookVerify, {
+        secretStore: {
+          get: () => undefined,
+          close: () => {
+            closed = true;
+          },
+        },
+        secretCheck: false,
+      });
+
+      await fastify.close();
+
+      expect(closed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance, type FastifyRequest } from 'fastify';
+import webhookVerify, {
+  createSecretResolver,
+  MissingSecretError,
+  type WebhookVerificationResult,
+} from '../src/index.js';
+import { getActiveSecrets } from '../src/secrets.js';
+import {
+  createGitHubSignature,
+  createShopifyQuery,
+  createStripeSignature,
+  getCurrentTimestamp,
+} from './helpers.js';
+
+const OLD_SECRET = 'whsec_rotation_old';
+const NEW_SECRET = 'whsec_rotation_new';
+
+describe('Secrets', () => {
+  describe('getActiveSecrets', () => {
+    const now = Date.parse('2024-06-01T00:00:00Z');
+
+    it('should return a plain secret without key id', () => {
+      expect(getActiveSecrets('secret', now)).toEqual([{ secret: 'secret', keyId: undefined }]);
+    });
+
+    it('should return nothing for missing secrets', () => {
+      expect(getActiveSecrets(undefined, now)).toEqual([]);
+      expect(getActiveSecrets('', now)).toEqual([]);
+      expect(getActiveSecrets([], now)).toEqual([]);
+    });
+
+    it('should keep the list order and default key ids to positions', () => {
+      expect(getActiveSecrets(['new', { secret: 'old', keyId: 'v1' }], now)).toEqual([
+        { secret: 'new', keyId: '0' },
+        { secret: 'old', keyId: 'v1' },
+      ]);
+    });
+
+    it('should drop secrets past notAfter', () => {
+      const secrets = getActiveSecrets(
+        [
+          { secret: 'new', keyId: 'v2' },
+          { secret: 'old', keyId: 'v1', notAfter: '2024-05-31T23:59:59Z' },
+          { secret: 'older', keyId: 'v0', notAfter: new Date(now + 1000) },
+        ],
+        now
+      );
+
+      expect(secrets.map(({ keyId }) => keyId)).toEqual(['v2', 'v0']);
+    });
+
+    it('should drop secrets with an unparseable notAfter', () => {
+      expect(getActiveSecrets([{ secret: 'old', notAfter: 'soon' }], now)).toEqual([]);
+    });
+  });
+
+  describe('createSecretResolver', () => {
+    const request = (tenant?: string) => ({ headers: { 'x-tenant': tenant } }) as FastifyRequest;
+    const cacheKey = (req: FastifyRequest) => req.headers['x-tenant'] as string | undefined;
+
+    it('should cache resolved secrets per provider and key', async () => {
+      const resolve = vi.fn((req: FastifyRequest) => `secret-${String(cacheKey(req))}`);
+      const resolver = createSecretResolver({ resolve, cacheKey });
+
+      expect(await resolver(request('a'), 'stripe')).toBe('secret-a');
+      expect(await resolver(request('a'), 'stripe')).toBe('secret-a');
+      expect(await resolver(request('b'), 'stripe')).toBe('secret-b');
+      expect(await resolver(request('a'), 'github')).toBe('secret-a');
+      expect(resolve).toHaveBeenCalledTimes(3);
+    });
+
+    it('should resolve again after the TTL', async () => {
+      const resolve = vi.fn(() => Promise.resolve('secret'));
+      const resolver = createSecretResolver({ resolve, cacheKey, ttl: 0 });
+
+      await resolver(request('a'), 'stripe');
+      await resolver(request('a'), 'stripe');
+
+      expect(resolve).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache missing secrets for negativeTtl', async () => {
+      const resolve = vi.fn(() => Promise.resolve(undefined));
+      const resolver = createSecretResolver({ resolve, cacheKey, ttl: 0 });
+
+      expect(await resolver(request('unknown'), 'shopify')).toBeUndefined();
+      expect(await resolver(request('unknown'), 'shopify')).toBeUndefined();
+      expect(resolve).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share concurrent lookups', async () => {
+      const resolve = vi.fn(() => Promise.resolve('secret'));
+      const resolver = createSecretResolver({ resolve, cacheKey });
+
+      await Promise.all([resolver(request('a'), 'stripe'), resolver(request('a'), 'stripe')]);
+
+      expect(resolve).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache failed lookups', async () => {
+      const resolve = vi
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new Error('database unavailable'))
+        .mockResolvedValue('secret');
+      const resolver = createSecretResolver({ resolve, cacheKey });
+
+      await expect(resolver(request('a'), 'stripe')).rejects.toThrow('database unavailable');
+      expect(await resolver(request('a'), 'stripe')).toBe('secret');
+    });
+
+    it('should not cache requests without a key', async () => {
+      const resolve = vi.fn(() => 'secret');
+      const resolver = createSecretResolver({ resolve, cacheKey });
+
+      await resolver(request(), 'stripe');
+      await resolver(request(), 'stripe');
+
+      expect(resolve).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict the oldest key when full', async () => {
+      const resolve = vi.fn(() => 'secret');
+      const resolver = createSecretResolver({ resolve, cacheKey, maxEntries: 2 });
+
+      for (const tenant of ['a', 'b', 'c', 'a']) {
+        await resolver(request(tenant), 'stripe');
+      }
+
+      expect(resolve).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('plugin', () => {
+    let fastify: FastifyInstance;
+    let verified: WebhookVerificationResult | undefined;
+
+    beforeEach(async () => {
+      verified = undefined;
+      fastify = Fastify({ logger: false });
+
+      await fastify.register(webhookVerify, {
+        providers: {
+          stripe: [
+            { secret: NEW_SECRET, keyId: '2024-06' },
+            { secret: OLD_SECRET, keyId: '2024-01', notAfter: new Date(Date.now() + 60000) },
+            { secret: 'whsec_retired', keyId: '2023-01', notAfter: '2024-01-01T00:00:00Z' },
+          ],
+          github: [NEW_SECRET, OLD_SECRET],
+          shopify: [{ secret: NEW_SECRET, keyId: 'current' }],
+        },
+        onVerify: (result) => {
+          verified = result;
+        },
+      });
+
+      fastify.post(
+        '/webhook/stripe',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe' }) },
+        async (request) => ({ keyId: request.webhook?.keyId })
+      );
+
+      fastify.post(
+        '/webhook/github',
+        { preHandler: fastify.webhookVerify({ provider: 'github' }) },
+        async (request) => ({ keyId: request.webhook?.keyId })
+      );
+
+      fastify.post(
+        '/webhook/inline',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe', secret: OLD_SECRET }) },
+        async (request) => ({ keyId: request.webhook?.keyId ?? null })
+      );
+
+      fastify.get(
+        '/shopify/callback',
+        { preHandler: fastify.shopifyVerify({ mode: 'oauth' }) },
+        async (request) => ({ keyId: request.shopifyQuery?.keyId })
+      );
+    });
+
+    afterEach(async () => {
+      await fastify.close();
+    });
+
+    const sendStripe = (url: string, secret: string) => {
+      const payload = JSON.stringify({ type: 'invoice.paid', id: `evt_${secret}` });
+      return fastify.inject({
+        method: 'POST',
+        url,
+        headers: {
+          'content-type': 'application/json',
+          'stripe-signature': createStripeSignature(payload, secret, getCurrentTimestamp()),
+        },
+        payload,
+      });
+    };
+
+    it('should accept each active secret and report its key id', async () => {
+      const current = await sendStripe('/webhook/stripe', NEW_SECRET);
+      expect(current.json()).toEqual({ keyId: '2024-06' });
+      expect(verified?.keyId).toBe('2024-06');
+
+      const previous = await sendStripe('/webhook/stripe', OLD_SECRET);
+      expect(previous.json()).toEqual({ keyId: '2024-01' });
+      expect(verified?.keyId).toBe('2024-01');
+    });
+
+    it('should reject secrets past notAfter', async () => {
+      const response = await sendStripe('/webhook/stripe', 'whsec_retired');
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should default key ids to list positions', async () => {
+      const payload = JSON.stringify({ action: 'opened' });
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/webhook/github',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createGitHubSignature(payload, OLD_SECRET),
+        },
+        payload,
+      });
+
+      expect(response.json()).toEqual({ keyId: '1' });
+    });
+
+    it('should not report a key id for a single secret', async () => {
+      const response = await sendStripe('/webhook/inline', OLD_SECRET);
+
+      expect(response.json()).toEqual({ keyId: null });
+      expect(verified).not.toHaveProperty('keyId');
+    });
+
+    it('should resolve secrets per request', async () => {
+      const tenants: Record<string, string> = { acct_1: NEW_SECRET, acct_2: OLD_SECRET };
+      const resolve = vi.fn((request: FastifyRequest) => {
+        const { account } = request.body as { account?: string };
+        return Promise.resolve(account ? tenants[account] : undefined);
+      });
+      fastify.post(
+        '/webhook/tenants',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe', secret: resolve }) },
+        async () => ({ ok: true })
+      );
+
+      const send = (account: string, secret: string) => {
+        const payload = JSON.stringify({ type: 'invoice.paid', account });
+        return fastify.inject({
+          method: 'POST',
+          url: '/webhook/tenants',
+          headers: {
+            'content-type': 'application/json',
+            'stripe-signature': createStripeSignature(payload, secret, getCurrentTimestamp()),
+          },
+          payload,
+        });
+      };
+
+      expect((await send('acct_1', NEW_SECRET)).statusCode).toBe(200);
+      expect((await send('acct_2', OLD_SECRET)).statusCode).toBe(200);
+      expect((await send('acct_2', NEW_SECRET)).statusCode).toBe(401);
+      expect(resolve).toHaveBeenCalledWith(expect.anything(), 'stripe');
+    });
+
+    it('should raise MissingSecretError when the resolver returns nothing', async () => {
+      let error: unknown;
+      await fastify.close();
+      fastify = Fastify({ logger: false });
+      await fastify.register(webhookVerify, {
+        providers: { stripe: () => Promise.resolve([]) },
+        errorHandler: (err, _request, reply) => {
+          error = err;
+          return reply.code(500).send({ error: err.message });
+        },
+      });
+      fastify.post(
+        '/webhook/stripe',
+        { preHandler: fastify.webhookVerify({ provider: 'stripe' }) },
+        async () => ({ ok: true })
+      );
+
+      const response = await sendStripe('/webhook/stripe', NEW_SECRET);
+
+      expect(response.statusCode).toBe(500);
+      expect(error).toBeInstanceOf(MissingSecretError);
+    });
+
+    it('should rotate Shopify query secrets', async () => {
+      const query = createShopifyQuery(
+        { shop: 'example.myshopify.com', timestamp: String(getCurrentTimestamp()) },
+        NEW_SECRET,
+        'oauth'
+      );
+      const response = await fastify.inject({ method: 'GET', url: `/shopify/callback?${query}` });
+
+      expect(response.json()).toEqual({ keyId: 'current' });
+    });
+  });
+});